@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, Diamond, Trash2, Film, X } from 'lucide-react';
+import { KeyframeEasing, StudioAnimation } from '../types';
+import { EASING_LABELS } from '../services/animationService';
+import { VideoContainer, VIDEO_FPS_OPTIONS, VIDEO_HEIGHT_OPTIONS, getSupportedVideoContainers, getVideoSize } from '../services/videoExportService';
+
+export interface ClipExportSettings {
+  container: VideoContainer;
+  fps: number;
+  height: number;
+}
+
+interface AnimationTimelineProps {
+  animation: StudioAnimation;
+  onChange: (animation: StudioAnimation) => void;
+  time: number;
+  onTimeChange: (time: number) => void;
+  onAddKeyframe: () => void;
+  aspect: number; // Of the exported clip
+  exportProgress: number | null; // 0-1 while a clip is recording
+  onExport: (settings: ClipExportSettings) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) => `${time.toFixed(2)}s`;
+
+/**
+ * Keyframe timeline for product reels: scrub and play the animation in the camera
+ * preview, key the current camera and object poses, and record the clip to video
+ */
+export const AnimationTimeline: React.FC<AnimationTimelineProps> = ({
+  animation,
+  onChange,
+  time,
+  onTimeChange,
+  onAddKeyframe,
+  aspect,
+  exportProgress,
+  onExport,
+  onClose
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null);
+  const [containers] = useState(getSupportedVideoContainers);
+  const [exportSettings, setExportSettings] = useState<ClipExportSettings>({
+    container: containers[0] ?? 'webm',
+    fps: 30,
+    height: 720
+  });
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  const { duration, keyframes } = animation;
+  const selectedKey = keyframes.find(k => k.id === selectedKeyId);
+  const isExporting = exportProgress != null;
+
+  // Loop playback from wherever the playhead is
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const start = performance.now() - timeRef.current * 1000;
+    const tick = (now: number) => {
+      onTimeChange(((now - start) / 1000) % duration);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, duration, onTimeChange]);
+
+  useEffect(() => {
+    if (isExporting) setIsPlaying(false);
+  }, [isExporting]);
+
+  const updateKey = (id: string, updates: { time?: number; easing?: KeyframeEasing }) => {
+    onChange({
+      ...animation,
+      keyframes: keyframes.map(k => k.id === id ? { ...k, ...updates } : k).sort((a, b) => a.time - b.time)
+    });
+  };
+
+  const size = getVideoSize(exportSettings.height, aspect);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 w-[min(36rem,calc(100%-16rem))] bg-zinc-900/95 border border-zinc-700 rounded-lg shadow-2xl p-3 space-y-2 text-xs text-zinc-300">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onTimeChange(0)}
+          className="p-1.5 rounded hover:bg-zinc-700 text-zinc-400 hover:text-white"
+          title="Back to start"
+        >
+          <SkipBack className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          disabled={keyframes.length < 2 || isExporting}
+          className="p-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40 disabled:pointer-events-none"
+          title={isPlaying ? 'Pause' : 'Play in camera preview'}
+        >
+          {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </button>
+        <span className="font-mono w-24">{formatTime(time)} / {formatTime(duration)}</span>
+        <button
+          onClick={onAddKeyframe}
+          disabled={isPlaying || isExporting}
+          className="flex items-center gap-1 px-2 py-1 rounded bg-zinc-700 hover:bg-zinc-600 text-zinc-200 disabled:opacity-40"
+          title="Key the current camera and object poses at the playhead"
+        >
+          <Diamond className="w-3 h-3" /> Key
+        </button>
+        <label className="flex items-center gap-1 ml-auto">
+          <span className="text-zinc-500">Length</span>
+          <input
+            type="number"
+            min={0.5}
+            max={60}
+            step={0.5}
+            value={duration}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (!isNaN(value) && value >= 0.5) onChange({ ...animation, duration: value });
+            }}
+            className="w-14 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-zinc-200"
+          />
+        </label>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white" title="Close timeline">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Track with keyframe markers and the playhead */}
+      <div className="relative h-6">
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={Math.min(time, duration)}
+          onChange={(e) => {
+            setIsPlaying(false);
+            onTimeChange(parseFloat(e.target.value));
+          }}
+          className="absolute inset-x-0 top-1/2 -translate-y-1/2 w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+        {keyframes.map(key => (
+          <button
+            key={key.id}
+            onClick={() => {
+              setSelectedKeyId(key.id);
+              setIsPlaying(false);
+              onTimeChange(key.time);
+            }}
+            style={{ left: `${Math.min(key.time / duration, 1) * 100}%` }}
+            className={`absolute top-0 -translate-x-1/2 ${key.id === selectedKeyId ? 'text-amber-400' : 'text-zinc-400 hover:text-white'}`}
+            title={`Keyframe at ${formatTime(key.time)}`}
+          >
+            <Diamond className="w-3 h-3 fill-current" />
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 min-h-[1.75rem]">
+        {selectedKey ? (
+          <>
+            <span className="text-zinc-500">Key</span>
+            <input
+              type="number"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={Math.round(selectedKey.time * 100) / 100}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value) && value >= 0 && value <= duration) updateKey(selectedKey.id, { time: value });
+              }}
+              className="w-16 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-zinc-200"
+            />
+            <select
+              value={selectedKey.easing}
+              onChange={(e) => updateKey(selectedKey.id, { easing: e.target.value as KeyframeEasing })}
+              className="bg-zinc-950 border border-zinc-700 rounded px-1.5 py-0.5 text-zinc-200"
+            >
+              {(Object.keys(EASING_LABELS) as KeyframeEasing[]).map(easing => (
+                <option key={easing} value={easing}>{EASING_LABELS[easing]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                onChange({ ...animation, keyframes: keyframes.filter(k => k.id !== selectedKey.id) });
+                setSelectedKeyId(null);
+              }}
+              className="p-1 text-zinc-500 hover:text-red-400"
+              title="Delete keyframe"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </>
+        ) : (
+          <span className="text-zinc-500">
+            {keyframes.length === 0 ? 'Pose the camera and objects, then press Key.' : `${keyframes.length} keyframes`}
+          </span>
+        )}
+
+        {/* Clip export */}
+        <div className="flex items-center gap-1.5 ml-auto">
+          <select
+            value={exportSettings.height}
+            onChange={(e) => setExportSettings({ ...exportSettings, height: parseInt(e.target.value) })}
+            className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-zinc-200"
+            title={`${size.width}×${size.height}`}
+          >
+            {VIDEO_HEIGHT_OPTIONS.map(height => (
+              <option key={height} value={height}>{height}p</option>
+            ))}
+          </select>
+          <select
+            value={exportSettings.fps}
+            onChange={(e) => setExportSettings({ ...exportSettings, fps: parseInt(e.target.value) })}
+            className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-zinc-200"
+          >
+            {VIDEO_FPS_OPTIONS.map(fps => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+          <select
+            value={exportSettings.container}
+            onChange={(e) => setExportSettings({ ...exportSettings, container: e.target.value as VideoContainer })}
+            className="bg-zinc-950 border border-zinc-700 rounded px-1 py-0.5 text-zinc-200 uppercase"
+          >
+            {containers.map(container => (
+              <option key={container} value={container}>{container}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onExport(exportSettings)}
+            disabled={keyframes.length === 0 || isExporting || containers.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40 disabled:pointer-events-none"
+            title={containers.length === 0 ? 'Video recording is not supported in this browser' : 'Record the clip from the studio camera'}
+          >
+            <Film className="w-3 h-3" />
+            {exportProgress != null ? `${Math.round(exportProgress * 100)}%` : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationTimeline;
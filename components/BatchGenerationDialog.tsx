@@ -1,34 +1,63 @@
 import React, { useState } from 'react';
-import { Layers, Sparkles, X, Copy, Plus } from 'lucide-react';
+import { Layers, Sparkles, X, Copy, Plus, Video, RotateCw, Scan } from 'lucide-react';
+import { NamedStudioCamera, TurntableMode } from '../types';
+import { TurntableSettings, TURNTABLE_FRAME_PRESETS } from '../services/turntableService';
+import { FramingSettings, DEFAULT_FRAMING, FRAME_FILL_PRESETS } from '../services/framingService';
 
 interface BatchGenerationDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (prompts: string[]) => void;
+  onGenerate: (prompts: string[], cameraIds: string[], autoFraming?: FramingSettings) => void;
   currentObjectName: string;
+  cameras: NamedStudioCamera[];
+  activeCameraId: string;
+  onGenerateTurntable: (settings: TurntableSettings) => void;
+  cameraElevation: number; // Starting elevation for spin sets, in degrees
 }
 
 export const BatchGenerationDialog: React.FC<BatchGenerationDialogProps> = ({ 
   isOpen, 
   onClose, 
   onGenerate, 
-  currentObjectName 
+  currentObjectName,
+  cameras,
+  activeCameraId,
+  onGenerateTurntable,
+  cameraElevation
 }) => {
-  const [mode, setMode] = useState<'single' | 'batch'>('single');
+  const [mode, setMode] = useState<'single' | 'batch' | 'turntable'>('single');
   const [variations, setVariations] = useState<string>('');
+  const [cameraScope, setCameraScope] = useState<'active' | 'all'>('active');
+  const [turntableFrames, setTurntableFrames] = useState(24);
+  const [turntableElevation, setTurntableElevation] = useState<number | null>(null);
+  const [turntableMode, setTurntableMode] = useState<TurntableMode>('orbit_camera');
+  const [autoFrameFill, setAutoFrameFill] = useState<number | null>(null);
 
   if (!isOpen) return null;
 
+  const activeCamera = cameras.find(c => c.id === activeCameraId) || cameras[0];
+
   const handleGenerate = () => {
+    if (mode === 'turntable') {
+      onGenerateTurntable({
+        frames: turntableFrames,
+        elevation: turntableElevation ?? cameraElevation,
+        mode: turntableMode
+      });
+      onClose();
+      return;
+    }
+    const cameraIds = cameraScope === 'all' ? cameras.map(c => c.id) : [activeCamera?.id].filter(Boolean) as string[];
+    const autoFraming = autoFrameFill !== null ? { ...DEFAULT_FRAMING, fill: autoFrameFill } : undefined;
     if (mode === 'single') {
-      onGenerate([currentObjectName]); // Just use the current object name/state
+      onGenerate([currentObjectName], cameraIds, autoFraming); // Just use the current object name/state
     } else {
       // Split by new line, filter empty
       const prompts = variations.split('\n').map(s => s.trim()).filter(s => s.length > 0);
       if (prompts.length === 0) {
-        onGenerate([currentObjectName]);
+        onGenerate([currentObjectName], cameraIds, autoFraming);
       } else {
-        onGenerate(prompts);
+        onGenerate(prompts, cameraIds, autoFraming);
       }
     }
     onClose();
@@ -64,6 +93,12 @@ export const BatchGenerationDialog: React.FC<BatchGenerationDialogProps> = ({
             >
               Item Sets / Variants
             </button>
+            <button 
+              onClick={() => setMode('turntable')}
+              className={`flex-1 text-sm font-medium py-2 rounded-md transition-all ${mode === 'turntable' ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-white'}`}
+            >
+              Turntable
+            </button>
           </div>
 
           {mode === 'single' ? (
@@ -74,6 +109,67 @@ export const BatchGenerationDialog: React.FC<BatchGenerationDialogProps> = ({
                 Lighting, background, and camera angle will be preserved exactly as seen in the viewport.
               </div>
             </div>
+          ) : mode === 'turntable' ? (
+            <div className="space-y-4 text-sm text-zinc-300">
+              <div>
+                <span className="block text-xs text-zinc-500 uppercase tracking-wider mb-2">Frames</span>
+                <div className="flex gap-1.5">
+                  {TURNTABLE_FRAME_PRESETS.map(frames => (
+                    <button
+                      key={frames}
+                      onClick={() => setTurntableFrames(frames)}
+                      className={`flex-1 text-xs py-1.5 rounded-md transition-all ${turntableFrames === frames ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+                    >
+                      {frames}
+                    </button>
+                  ))}
+                  <input
+                    type="number"
+                    min={2}
+                    max={72}
+                    value={turntableFrames}
+                    onChange={(e) => {
+                      const frames = parseInt(e.target.value);
+                      if (!isNaN(frames)) setTurntableFrames(Math.min(72, Math.max(2, frames)));
+                    }}
+                    className="w-16 bg-zinc-950 border border-zinc-700 rounded-md px-2 text-xs text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-zinc-500 uppercase tracking-wider">Elevation</span>
+                  <span>{turntableElevation ?? cameraElevation}°</span>
+                </div>
+                <input
+                  type="range"
+                  min={-30} max={80} step={1}
+                  value={turntableElevation ?? cameraElevation}
+                  onChange={(e) => setTurntableElevation(parseInt(e.target.value))}
+                  className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+              </div>
+              <div className="flex bg-zinc-800 p-1 rounded-lg">
+                <button
+                  onClick={() => setTurntableMode('orbit_camera')}
+                  className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-all ${turntableMode === 'orbit_camera' ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  Orbit Camera
+                </button>
+                <button
+                  onClick={() => setTurntableMode('rotate_product')}
+                  className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-all ${turntableMode === 'rotate_product' ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  Rotate Product
+                </button>
+              </div>
+              <p className="text-xs text-zinc-500">
+                {turntableMode === 'orbit_camera'
+                  ? 'The camera circles its look-at point; lights stay fixed to the set.'
+                  : 'The product turns in front of the camera; lighting stays fixed to the lens.'}
+                {' '}Every frame shares one seed and style so the set stays consistent.
+              </p>
+            </div>
           ) : (
             <div className="space-y-3">
               <label className="block text-sm text-zinc-300">
@@ -90,6 +186,56 @@ export const BatchGenerationDialog: React.FC<BatchGenerationDialogProps> = ({
               </p>
             </div>
           )}
+
+          {cameras.length > 1 && mode !== 'turntable' && (
+            <div className="mt-5">
+              <span className="flex items-center gap-1.5 text-xs text-zinc-500 uppercase tracking-wider mb-2">
+                <Video className="w-3 h-3" /> Cameras
+              </span>
+              <div className="flex bg-zinc-800 p-1 rounded-lg">
+                <button
+                  onClick={() => setCameraScope('active')}
+                  className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-all truncate ${cameraScope === 'active' ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  {activeCamera?.name || 'Active camera'}
+                </button>
+                <button
+                  onClick={() => setCameraScope('all')}
+                  className={`flex-1 text-xs font-medium py-1.5 rounded-md transition-all ${cameraScope === 'all' ? 'bg-zinc-600 text-white shadow-sm' : 'text-zinc-400 hover:text-white'}`}
+                >
+                  All cameras ({cameras.length})
+                </button>
+              </div>
+            </div>
+          )}
+
+          {mode !== 'turntable' && (
+            <div className="mt-5">
+              <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoFrameFill !== null}
+                  onChange={(e) => setAutoFrameFill(e.target.checked ? DEFAULT_FRAMING.fill : null)}
+                  className="accent-indigo-500"
+                />
+                <Scan className="w-3 h-3 text-zinc-500" />
+                Auto-frame the products in every shot
+              </label>
+              {autoFrameFill !== null && (
+                <div className="flex gap-1.5 mt-2">
+                  {FRAME_FILL_PRESETS.map(fill => (
+                    <button
+                      key={fill}
+                      onClick={() => setAutoFrameFill(fill)}
+                      className={`flex-1 text-xs py-1.5 rounded-md transition-all ${autoFrameFill === fill ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+                    >
+                      {Math.round(fill * 100)}% fill
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -104,8 +250,8 @@ export const BatchGenerationDialog: React.FC<BatchGenerationDialogProps> = ({
             onClick={handleGenerate}
             className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium rounded-lg shadow-lg shadow-indigo-500/20 flex items-center gap-2"
           >
-            <Layers className="w-4 h-4" />
-            {mode === 'single' ? 'Generate Image' : `Generate Batch`}
+            {mode === 'turntable' ? <RotateCw className="w-4 h-4" /> : <Layers className="w-4 h-4" />}
+            {mode === 'single' ? 'Generate Image' : mode === 'turntable' ? `Generate Spin Set (${turntableFrames})` : `Generate Batch`}
           </button>
         </div>
       </div>
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { StudioCamera } from '../types';
+import { isOrthographic, getOrthographicHeight } from '../services/cameraService';
+
+// Which part of the studio camera the viewport gizmo is moving
+export type CameraHandle = 'position' | 'target';
+
+interface CameraGizmoProps {
+  camera: StudioCamera;
+  aspect: number;
+  isSelected: boolean;
+  onSelect: (handle: CameraHandle) => void;
+  handleRef?: (handle: CameraHandle, el: THREE.Object3D | null) => void;
+}
+
+const CAMERA_COLOR = '#ef4444';
+const SELECTED_COLOR = '#facc15';
+
+/**
+ * Viewport helper for the studio camera: a clickable camera body, its view frustum
+ * out to the look-at point (a box for orthographic cameras), and a draggable look-at handle.
+ * Editor-only; not part of the exported or previewed scene.
+ */
+export const CameraGizmo: React.FC<CameraGizmoProps> = ({ camera, aspect, isSelected, onSelect, handleRef }) => {
+  const color = isSelected ? SELECTED_COLOR : CAMERA_COLOR;
+  const eye = new THREE.Vector3(...camera.position);
+  const target = new THREE.Vector3(...camera.lookAt);
+
+  // Cameras look down -Z, which is what Matrix4.lookAt produces
+  const orientation = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().lookAt(eye, target, new THREE.Vector3(0, 1, 0))
+  );
+
+  // Frustum drawn from the lens to the focus plane at the look-at distance
+  const depth = Math.max(eye.distanceTo(target), 0.5);
+  const orthographic = isOrthographic(camera);
+  const halfHeight = orthographic
+    ? getOrthographicHeight(camera) / 2
+    : depth * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2));
+  const halfWidth = halfHeight * aspect;
+  const frame = (z: number): [number, number, number][] => [
+    [-halfWidth, -halfHeight, z],
+    [halfWidth, -halfHeight, z],
+    [halfWidth, halfHeight, z],
+    [-halfWidth, halfHeight, z]
+  ];
+  const corners = frame(-depth);
+  // Orthographic views are a box: each far corner connects straight back to the lens plane
+  const lensCorners = orthographic ? frame(0) : corners.map((): [number, number, number] => [0, 0, 0]);
+  const frustumLines: [number, number, number][] = [
+    ...corners.flatMap((corner, i) => [lensCorners[i], corner, lensCorners[i]]),
+    ...(orthographic ? [...lensCorners, lensCorners[0]] : []),
+    ...corners, corners[0]
+  ];
+
+  const select = (handle: CameraHandle) => (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onSelect(handle);
+  };
+
+  return (
+    <>
+      <group
+        ref={handleRef ? (el) => handleRef('position', el) : undefined}
+        position={camera.position}
+        quaternion={orientation}
+        onClick={select('position')}
+      >
+        <mesh position={[0, 0, 0.2]}>
+          <boxGeometry args={[0.3, 0.22, 0.35]} />
+          <meshBasicMaterial color={color} wireframe={!isSelected} />
+        </mesh>
+        <mesh position={[0, 0, -0.05]} rotation={[Math.PI / 2, 0, 0]}>
+          <cylinderGeometry args={[0.08, 0.1, 0.15, 16]} />
+          <meshBasicMaterial color={color} wireframe={!isSelected} />
+        </mesh>
+        <Line
+          points={frustumLines}
+          color={color}
+          lineWidth={1}
+          transparent
+          opacity={isSelected ? 0.9 : 0.4}
+        />
+      </group>
+
+      {isSelected && (
+        <group
+          ref={handleRef ? (el) => handleRef('target', el) : undefined}
+          position={camera.lookAt}
+          onClick={select('target')}
+        >
+          <mesh>
+            <sphereGeometry args={[0.08, 12, 12]} />
+            <meshBasicMaterial color={SELECTED_COLOR} />
+          </mesh>
+        </group>
+      )}
+    </>
+  );
+};
+
+export default CameraGizmo;
@@ -1,150 +1,327 @@
-import React, { useRef, useEffect, useState, useMemo } from 'react';
+import React, { useRef, useEffect, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { Environment, ContactShadows } from '@react-three/drei';
 import * as THREE from 'three';
-import { StudioConfig, StudioObject, StudioCamera } from '../types';
-import { Video, Maximize2, Minimize2 } from 'lucide-react';
+import { StudioConfig, StudioObject, StudioCamera, NamedStudioCamera, OutputFormat } from '../types';
+import { Video, Maximize2, Minimize2, Grid3x3, TriangleAlert } from 'lucide-react';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { StudioScene } from './StudioScene';
+import { CompositionOverlay } from './CompositionOverlay';
+import { getLens, getBlurPerUnit, isOrthographic, getOrthographicHeight } from '../services/cameraService';
+import { getOutputAspect, ASPECT_RATIO_PRESETS } from '../services/outputFormatService';
+import { ProductTurn } from '../services/turntableService';
+import { AnimationPose } from '../services/animationService';
+import { VideoExportOptions, recordCanvas } from '../services/videoExportService';
+import { CompositionGuides, CropAspect, DEFAULT_COMPOSITION_GUIDES, SAFE_AREA_PRESETS, FramingIssue, getFramingIssue } from '../services/compositionService';
+import { getRootObjects } from '../services/sceneGraph';
 
 interface CameraPreviewProps {
   config: StudioConfig;
   objects: StudioObject[];
   studioCamera: StudioCamera;
+  outputFormat: OutputFormat;
+  cameras?: NamedStudioCamera[];
+  activeCameraId?: string;
+  onSelectCamera?: (id: string) => void;
   onCapture?: (dataUrl: string) => void;
 }
 
+export interface CameraPreviewRef {
+  // Render the scene through any studio camera at an output size, e.g. to generate from every camera at once
+  // A product turn renders the objects rotated, for turntable frames
+  capture: (camera: StudioCamera, format: OutputFormat, productTurn?: ProductTurn) => string;
+  // Record an animation through the studio camera's lens into a video clip
+  recordClip: (
+    options: VideoExportOptions,
+    sample: (time: number) => AnimationPose | null,
+    onProgress?: (progress: number) => void
+  ) => Promise<Blob>;
+}
+
+// Long edge of the preview frame in px
+const PREVIEW_SIZE = 192;
+const EXPANDED_PREVIEW_SIZE = 320;
+
 // Store camera position in a ref to avoid re-renders
 interface CameraState {
   position: [number, number, number];
   lookAt: [number, number, number];
   fov: number;
+  orthographic: boolean;
+  orthographicHeight: number;
+  depthOfField: boolean;
+  focusDistance: number;
+  blurPerUnit: number;
 }
 
-// Simplified object renderer for preview
-const PreviewObject: React.FC<{ object: StudioObject; platformType: string }> = ({ object, platformType }) => {
-  let yOffset = 0;
-  if (platformType !== 'none') {
-    yOffset = 0.5;
-    if (platformType === 'round_table') yOffset = 0.6;
-  }
-
-  const position = new THREE.Vector3(...(object.position || [0, 0, 0]));
-  position.y += yOffset;
-  const rotation = new THREE.Euler(...(object.rotation || [0, 0, 0]));
-  const scale = new THREE.Vector3(...(object.scale || [1, 1, 1]));
-
-  // Render compound object
-  if (object.type === 'compound' && object.parts && object.parts.length > 0) {
-    return (
-      <group position={position} rotation={rotation} scale={scale}>
-        {object.parts.map((part, index) => {
-          let Geometry = <boxGeometry args={[1, 1, 1]} />;
-          if (part.shape === 'sphere') Geometry = <sphereGeometry args={[0.5, 32, 32]} />;
-          if (part.shape === 'cylinder') Geometry = <cylinderGeometry args={[0.5, 0.5, 1, 32]} />;
-          if (part.shape === 'cone') Geometry = <coneGeometry args={[0.5, 1, 32]} />;
-          if (part.shape === 'torus') Geometry = <torusGeometry args={[0.5, 0.2, 16, 32]} />;
-
-          return (
-            <mesh
-              key={index}
-              position={new THREE.Vector3(...part.position)}
-              rotation={new THREE.Euler(...part.rotation)}
-              scale={new THREE.Vector3(...part.scale)}
-              castShadow
-              receiveShadow
-            >
-              {Geometry}
-              <meshStandardMaterial
-                color={part.color}
-                roughness={part.roughness ?? 0.5}
-                metalness={part.metalness ?? 0.5}
-              />
-            </mesh>
-          );
-        })}
-      </group>
-    );
-  }
-
-  // Primitive object
-  let Geometry = <torusKnotGeometry args={[0.6, 0.2, 100, 16]} />;
-  if (object.shape === 'cube') Geometry = <boxGeometry args={[1.2, 1.2, 1.2]} />;
-  if (object.shape === 'sphere') Geometry = <sphereGeometry args={[0.8, 32, 32]} />;
-  if (object.shape === 'cylinder') Geometry = <cylinderGeometry args={[0.8, 0.8, 1.5, 32]} />;
-  if (object.shape === 'torus') Geometry = <torusGeometry args={[0.6, 0.2, 16, 32]} />;
-
-  return (
-    <mesh position={position} rotation={rotation} scale={scale} castShadow receiveShadow>
-      {Geometry}
-      <meshStandardMaterial
-        color={object.color}
-        roughness={object.roughness ?? 0.5}
-        metalness={object.metalness ?? 0.5}
-      />
-    </mesh>
-  );
+const getCameraState = (camera: StudioCamera): CameraState => {
+  const { depthOfField, focusDistance } = getLens(camera);
+  return {
+    position: camera.position,
+    lookAt: camera.lookAt,
+    fov: camera.fov,
+    orthographic: isOrthographic(camera),
+    orthographicHeight: getOrthographicHeight(camera),
+    depthOfField,
+    focusDistance,
+    blurPerUnit: getBlurPerUnit(camera)
+  };
 };
 
+// Largest lens blur radius, as a fraction of the frame height
+const MAX_BLUR = 0.03;
+
+// Frames between checks of the objects against the frame edges
+const FRAMING_CHECK_INTERVAL = 15;
+
+type FramingIssues = Record<string, FramingIssue>;
+
 // Camera setup component - sets up camera and keeps it looking at target
 // Uses refs to avoid re-renders during slider adjustments
 const CameraSetup: React.FC<{ 
   cameraStateRef: React.MutableRefObject<CameraState>;
+  handleRef: React.MutableRefObject<CameraPreviewRef | null>;
+  productsRef: React.RefObject<THREE.Group | null>;
+  objectNodesRef: React.MutableRefObject<Record<string, THREE.Object3D>>;
+  framedIdsRef: React.MutableRefObject<string[]>;
   onCapture: (dataUrl: string) => void;
-}> = ({ cameraStateRef, onCapture }) => {
-  const { camera, gl, scene } = useThree();
+  onFramingChange: (issues: FramingIssues) => void;
+}> = ({ cameraStateRef, handleRef, productsRef, objectNodesRef, framedIdsRef, onCapture, onFramingChange }) => {
+  const { camera, gl, scene, size } = useThree();
   const lastCaptureRef = useRef<number>(0);
   const frameCountRef = useRef<number>(0);
+  // While recording, the recorder draws every frame instead of the live view
+  const isRecordingRef = useRef(false);
+  const framingKeyRef = useRef('');
+
+  // Depth of field runs as a bokeh pass over the rendered frame
+  const composer = useMemo(() => {
+    const effects = new EffectComposer(gl);
+    const renderPass = new RenderPass(scene, camera);
+    const bokehPass = new BokehPass(scene, camera, { maxblur: MAX_BLUR });
+    effects.addPass(renderPass);
+    effects.addPass(bokehPass);
+    effects.addPass(new OutputPass());
+    return { effects, renderPass, bokehPass };
+  }, [gl, scene, camera]);
+
+  useEffect(() => () => composer.effects.dispose(), [composer]);
+
+  useEffect(() => {
+    composer.effects.setPixelRatio(gl.getPixelRatio());
+    composer.effects.setSize(size.width, size.height);
+  }, [composer, gl, size]);
+
+  const renderView = (view: THREE.Camera, state: CameraState) => {
+    if (!state.depthOfField) {
+      gl.render(scene, view);
+      return;
+    }
+    composer.renderPass.camera = view;
+    composer.bokehPass.camera = view;
+    composer.bokehPass.uniforms['focus'].value = state.focusDistance;
+    composer.bokehPass.uniforms['aperture'].value = state.blurPerUnit;
+    composer.effects.render();
+    composer.renderPass.camera = camera;
+    composer.bokehPass.camera = camera;
+  };
+
+  const resize = (width: number, height: number, ratio: number) => {
+    gl.setPixelRatio(ratio);
+    gl.setSize(width, height, false);
+    composer.effects.setPixelRatio(ratio);
+    composer.effects.setSize(width, height);
+  };
+
+  // Orthographic cameras keep their frame height at any output aspect
+  const setOrthographicFrame = (view: THREE.OrthographicCamera, height: number, aspect: number) => {
+    view.top = height / 2;
+    view.bottom = -height / 2;
+    view.right = height * aspect / 2;
+    view.left = -height * aspect / 2;
+    view.updateProjectionMatrix();
+  };
+
+  // The canvas camera renders perspective views; orthographic ones get their own
+  const orthographicCamera = useMemo(() => new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000), []);
+
+  const createShot = (view: Pick<CameraState, 'position' | 'lookAt' | 'fov' | 'orthographic' | 'orthographicHeight'>, aspect: number) => {
+    let shot: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+    if (view.orthographic) {
+      shot = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+      setOrthographicFrame(shot, view.orthographicHeight, aspect);
+    } else {
+      shot = new THREE.PerspectiveCamera(view.fov, aspect, 0.1, 1000);
+    }
+    shot.position.set(...view.position);
+    shot.lookAt(...view.lookAt);
+    shot.updateMatrixWorld();
+    return shot;
+  };
+
+  // One-off renders and recordings at the output size; the next frame restores the live view
+  useEffect(() => {
+    const capture: CameraPreviewRef['capture'] = (studioCamera, { width, height }, productTurn) => {
+      const state = getCameraState(studioCamera);
+      const shot = createShot(state, width / height);
+      const pixelRatio = gl.getPixelRatio();
+
+      // Turn the products about the pivot: rotate, then shift so the pivot stays in place
+      const products = productsRef.current;
+      if (products && productTurn) {
+        const pivot = new THREE.Vector3(...productTurn.pivot);
+        products.rotation.set(0, productTurn.angle, 0);
+        products.position.copy(pivot).sub(pivot.clone().applyEuler(products.rotation));
+        products.updateMatrixWorld(true);
+      }
+
+      resize(width, height, 1);
+      renderView(shot, state);
+      const dataUrl = gl.domElement.toDataURL('image/png');
+      resize(size.width, size.height, pixelRatio);
+
+      if (products && productTurn) {
+        products.position.set(0, 0, 0);
+        products.rotation.set(0, 0, 0);
+        products.updateMatrixWorld(true);
+      }
+      return dataUrl;
+    };
+
+    const recordClip: CameraPreviewRef['recordClip'] = async (options, sample, onProgress) => {
+      const pixelRatio = gl.getPixelRatio();
+      const saved = Object.values(objectNodesRef.current).map(node => ({
+        node,
+        position: node.position.clone(),
+        quaternion: node.quaternion.clone(),
+        scale: node.scale.clone()
+      }));
+
+      isRecordingRef.current = true;
+      resize(options.width, options.height, 1);
+      try {
+        return await recordCanvas(gl.domElement, options, (time) => {
+          const pose = sample(time);
+          pose?.objects.forEach(({ id, position, rotation, scale }) => {
+            const node = objectNodesRef.current[id];
+            if (!node) return;
+            node.position.set(...position);
+            node.rotation.set(...rotation);
+            node.scale.set(...scale);
+          });
+          const view = pose
+            ? {
+              ...cameraStateRef.current,
+              ...pose.camera,
+              ...(pose.camera.zoom != null && { orthographicHeight: getOrthographicHeight(pose.camera) })
+            }
+            : cameraStateRef.current;
+          renderView(createShot(view, options.width / options.height), view);
+        }, onProgress);
+      } finally {
+        saved.forEach(({ node, position, quaternion, scale }) => {
+          node.position.copy(position);
+          node.quaternion.copy(quaternion);
+          node.scale.copy(scale);
+        });
+        resize(size.width, size.height, pixelRatio);
+        isRecordingRef.current = false;
+      }
+    };
+
+    handleRef.current = { capture, recordClip };
+    return () => { handleRef.current = null; };
+  });
   
-  // Update camera position and lookAt every frame using ref values (no re-renders)
+  // Update camera position and lookAt every frame using ref values (no re-renders).
+  // Runs with a priority so this component, not the canvas, renders each frame.
   useFrame(() => {
-    const { position, lookAt, fov } = cameraStateRef.current;
+    if (isRecordingRef.current) return;
+    const { position, lookAt, fov, orthographic, orthographicHeight } = cameraStateRef.current;
+    const view = orthographic ? orthographicCamera : camera;
     
     // Update camera position
-    camera.position.set(position[0], position[1], position[2]);
-    camera.lookAt(lookAt[0], lookAt[1], lookAt[2]);
+    view.position.set(position[0], position[1], position[2]);
+    view.lookAt(lookAt[0], lookAt[1], lookAt[2]);
     
-    // Update FOV if changed
-    if (camera instanceof THREE.PerspectiveCamera && camera.fov !== fov) {
+    // Update FOV if changed, or the orthographic frame
+    if (orthographic) {
+      setOrthographicFrame(orthographicCamera, orthographicHeight, size.width / size.height);
+    } else if (camera instanceof THREE.PerspectiveCamera && camera.fov !== fov) {
       camera.fov = fov;
       camera.updateProjectionMatrix();
     }
+
+    renderView(view, cameraStateRef.current);
+
+    // Check which objects are cut off by or touch the frame edge; report only changes
+    if (frameCountRef.current % FRAMING_CHECK_INTERVAL === 0) {
+      view.updateMatrixWorld();
+      const issues: FramingIssues = {};
+      const bounds = new THREE.Box3();
+      framedIdsRef.current.forEach(id => {
+        const node = objectNodesRef.current[id];
+        const issue = node && getFramingIssue(bounds.setFromObject(node), view);
+        if (issue) issues[id] = issue;
+      });
+      const key = JSON.stringify(issues);
+      if (key !== framingKeyRef.current) {
+        framingKeyRef.current = key;
+        onFramingChange(issues);
+      }
+    }
     
     // Capture every 10 frames (throttled) to avoid performance issues
     frameCountRef.current++;
     const now = Date.now();
     if (frameCountRef.current % 10 === 0 && now - lastCaptureRef.current > 100) {
       lastCaptureRef.current = now;
-      gl.render(scene, camera);
       const dataUrl = gl.domElement.toDataURL('image/png');
       onCapture(dataUrl);
     }
-  });
+  }, 1);
 
   return null;
 };
 
-export const CameraPreview: React.FC<CameraPreviewProps> = ({
+export const CameraPreview = forwardRef<CameraPreviewRef, CameraPreviewProps>(({
   config,
   objects,
   studioCamera,
+  outputFormat,
+  cameras = [],
+  activeCameraId,
+  onSelectCamera,
   onCapture
-}) => {
+}, ref) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const handleRef = useRef<CameraPreviewRef | null>(null);
+  const productsRef = useRef<THREE.Group>(null);
+  const objectNodesRef = useRef<Record<string, THREE.Object3D>>({});
+  const [guides, setGuides] = useState<CompositionGuides>(DEFAULT_COMPOSITION_GUIDES);
+  const [isGuidesMenuOpen, setIsGuidesMenuOpen] = useState(false);
+  const [framingIssues, setFramingIssues] = useState<FramingIssues>({});
+
+  // Whole products are checked against the frame; child parts move with them
+  const framedIdsRef = useRef<string[]>([]);
+  framedIdsRef.current = getRootObjects(objects).map(o => o.id);
+
+  useImperativeHandle(ref, () => ({
+    capture: (camera, format, productTurn) => handleRef.current?.capture(camera, format, productTurn) ?? '',
+    recordClip: (options, sample, onProgress) => handleRef.current
+      ? handleRef.current.recordClip(options, sample, onProgress)
+      : Promise.reject(new Error('Camera preview is not ready'))
+  }));
   
   // Use a ref to store camera state - updates don't cause re-renders
-  const cameraStateRef = useRef<CameraState>({
-    position: studioCamera.position,
-    lookAt: studioCamera.lookAt,
-    fov: studioCamera.fov
-  });
+  const cameraStateRef = useRef<CameraState>(getCameraState(studioCamera));
   
   // Update the ref when props change (without causing canvas re-render)
   useEffect(() => {
-    cameraStateRef.current = {
-      position: studioCamera.position,
-      lookAt: studioCamera.lookAt,
-      fov: studioCamera.fov
-    };
-  }, [studioCamera.position, studioCamera.lookAt, studioCamera.fov]);
+    cameraStateRef.current = getCameraState(studioCamera);
+  }, [studioCamera]);
 
   const handleCapture = (dataUrl: string) => {
     if (onCapture) {
@@ -152,7 +329,12 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
     }
   };
 
-  const previewSize = isExpanded ? 'w-80 h-60' : 'w-48 h-36';
+  // The preview frame has the shape of the output image
+  const aspect = getOutputAspect(outputFormat);
+  const longEdge = isExpanded ? EXPANDED_PREVIEW_SIZE : PREVIEW_SIZE;
+  const previewSize = aspect >= 1
+    ? { width: longEdge, height: longEdge / aspect }
+    : { width: longEdge * aspect, height: longEdge };
 
   // Memoize canvas to prevent unnecessary re-renders
   const canvasContent = useMemo(() => (
@@ -171,79 +353,148 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
       {/* Camera setup - handles position, lookAt, and capture using ref */}
       <CameraSetup 
         cameraStateRef={cameraStateRef}
+        handleRef={handleRef}
+        productsRef={productsRef}
+        objectNodesRef={objectNodesRef}
+        framedIdsRef={framedIdsRef}
         onCapture={handleCapture}
+        onFramingChange={setFramingIssues}
       />
 
-      <Environment preset="studio" blur={1} background={false} />
-
-      {/* Lights */}
-      <ambientLight intensity={config.lighting.ambientIntensity} color={config.lighting.ambientColor} />
-      <directionalLight
-        position={config.lighting.keyLightPosition}
-        intensity={config.lighting.keyLightIntensity}
-        color={config.lighting.keyLightColor}
-        castShadow
-      />
-      <pointLight
-        position={config.lighting.fillLightPosition}
-        intensity={config.lighting.fillLightIntensity}
-        color={config.lighting.fillLightColor}
-      />
-
-      {/* Objects */}
-      {objects.map(obj => (
-        <PreviewObject
-          key={obj.id}
-          object={obj}
-          platformType={config.environment.platformType}
-        />
-      ))}
-
-      {/* Floor */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -1.6, 0]} receiveShadow>
-        <planeGeometry args={[50, 50]} />
-        <meshStandardMaterial
-          color={config.environment.floorColor}
-          roughness={config.environment.floorRoughness}
-        />
-      </mesh>
-
-      <ContactShadows
-        position={[0, -1.55, 0]}
-        opacity={0.5}
-        scale={10}
-        blur={1.5}
-        far={4.5}
+      {/* Same product scene as the editor viewport, without editor helpers */}
+      <StudioScene
+        config={config}
+        objects={objects}
+        productsRef={productsRef}
+        objectRef={(id, el) => {
+          if (el) objectNodesRef.current[id] = el;
+          else delete objectNodesRef.current[id];
+        }}
       />
     </Canvas>
   ), [config, objects]); // Only re-create canvas when config or objects change, NOT camera
 
+  const issueNames = objects
+    .filter(o => framingIssues[o.id])
+    .map(o => o.name);
+  const isCutOff = Object.values(framingIssues).includes('outside');
+  const checkboxGuides: { key: 'thirds' | 'goldenRatio' | 'centerCross'; label: string }[] = [
+    { key: 'thirds', label: 'Rule of thirds' },
+    { key: 'goldenRatio', label: 'Golden ratio' },
+    { key: 'centerCross', label: 'Center cross' }
+  ];
+
   return (
-    <div className={`absolute bottom-4 right-4 ${previewSize} bg-zinc-900 rounded-lg border-2 border-indigo-500 overflow-hidden shadow-2xl shadow-indigo-500/20 transition-all duration-300 z-20`}>
-      {/* Header */}
-      <div className="absolute top-0 left-0 right-0 h-6 bg-gradient-to-b from-black/80 to-transparent z-10 flex items-center justify-between px-2">
-        <div className="flex items-center gap-1 text-[10px] text-indigo-400 font-medium">
-          <Video className="w-3 h-3" />
-          <span>Studio Camera</span>
+    <div style={previewSize} className="absolute bottom-4 right-4 transition-all duration-300 z-20">
+      <div className={`relative w-full h-full bg-zinc-900 rounded-lg border-2 overflow-hidden shadow-2xl ${issueNames.length ? 'border-amber-500 shadow-amber-500/20' : 'border-indigo-500 shadow-indigo-500/20'}`}>
+        {/* Header */}
+        <div className="absolute top-0 left-0 right-0 h-6 bg-gradient-to-b from-black/80 to-transparent z-10 flex items-center justify-between px-2">
+          <div className="flex items-center gap-1 text-[10px] text-indigo-400 font-medium">
+            <Video className="w-3 h-3" />
+            {cameras.length > 1 && onSelectCamera ? (
+              <select
+                value={activeCameraId}
+                onChange={(e) => onSelectCamera(e.target.value)}
+                className="bg-transparent text-indigo-400 focus:outline-none cursor-pointer max-w-[8rem]"
+              >
+                {cameras.map(camera => (
+                  <option key={camera.id} value={camera.id} className="bg-zinc-900">{camera.name}</option>
+                ))}
+              </select>
+            ) : (
+              <span>{cameras.find(c => c.id === activeCameraId)?.name || 'Studio Camera'}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={() => setIsGuidesMenuOpen(!isGuidesMenuOpen)}
+              className={`p-0.5 hover:bg-white/10 rounded ${isGuidesMenuOpen ? 'text-white' : 'text-white/60 hover:text-white'}`}
+              title="Composition Guides"
+            >
+              <Grid3x3 className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="p-0.5 hover:bg-white/10 rounded text-white/60 hover:text-white"
+            >
+              {isExpanded ? <Minimize2 className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
+            </button>
+          </div>
         </div>
-        <button
-          onClick={() => setIsExpanded(!isExpanded)}
-          className="p-0.5 hover:bg-white/10 rounded text-white/60 hover:text-white"
-        >
-          {isExpanded ? <Minimize2 className="w-3 h-3" /> : <Maximize2 className="w-3 h-3" />}
-        </button>
-      </div>
 
-      {/* 3D Preview Canvas - Memoized to prevent re-mounting */}
-      {canvasContent}
+        {/* 3D Preview Canvas - Memoized to prevent re-mounting */}
+        {canvasContent}
+
+        <CompositionOverlay guides={guides} aspect={aspect} />
 
-      {/* Recording indicator */}
-      <div className="absolute bottom-1 left-2 flex items-center gap-1">
-        <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-        <span className="text-[9px] text-white/60">LIVE</span>
+        {/* Framing warning */}
+        {issueNames.length > 0 && (
+          <div
+            className="absolute top-7 left-2 right-2 flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/90 text-[9px] text-black font-medium"
+            title={issueNames.join(', ')}
+          >
+            <TriangleAlert className="w-3 h-3 shrink-0" />
+            <span className="truncate">
+              {issueNames.length === 1 ? issueNames[0] : `${issueNames.length} objects`} {isCutOff ? 'cut off by the frame' : 'touching the frame edge'}
+            </span>
+          </div>
+        )}
+
+        {/* Recording indicator */}
+        <div className="absolute bottom-1 left-2 flex items-center gap-1">
+          <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+          <span className="text-[9px] text-white/60">LIVE</span>
+        </div>
+        <span className="absolute bottom-1 right-2 text-[9px] text-white/40">
+          {outputFormat.width}×{outputFormat.height}
+        </span>
       </div>
+
+      {/* Guides menu opens above the preview so the frame stays visible */}
+      {isGuidesMenuOpen && (
+        <div className="absolute right-0 bottom-full mb-2 w-52 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-3 space-y-2 text-xs text-zinc-400">
+          <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Composition Guides</div>
+          {checkboxGuides.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 cursor-pointer hover:text-zinc-200">
+              <input
+                type="checkbox"
+                checked={guides[key]}
+                onChange={(e) => setGuides({ ...guides, [key]: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              {label}
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2">
+            <span>Safe area</span>
+            <select
+              value={guides.safeArea ?? ''}
+              onChange={(e) => setGuides({ ...guides, safeArea: e.target.value ? parseFloat(e.target.value) : null })}
+              className="bg-zinc-950 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200 max-w-[7.5rem]"
+            >
+              <option value="">Off</option>
+              {SAFE_AREA_PRESETS.map(preset => (
+                <option key={preset.margin} value={preset.margin}>{preset.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Crop mask</span>
+            <select
+              value={guides.aspectMask ?? ''}
+              onChange={(e) => setGuides({ ...guides, aspectMask: (e.target.value || null) as CropAspect | null })}
+              className="bg-zinc-950 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+            >
+              <option value="">Off</option>
+              {(Object.keys(ASPECT_RATIO_PRESETS) as CropAspect[]).map(crop => (
+                <option key={crop} value={crop}>{crop}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
     </div>
   );
-};
+});
 
 export default CameraPreview;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { CompositionGuides, GOLDEN_SECTION, getCropRect } from '../services/compositionService';
+
+interface CompositionOverlayProps {
+  guides: CompositionGuides;
+  aspect: number; // Of the frame the guides are drawn over
+}
+
+// Lines across the frame at fractions of its width (vertical) or height (horizontal)
+const GuideLines: React.FC<{ fractions: number[]; className: string }> = ({ fractions, className }) => (
+  <g className={className}>
+    {fractions.map(f => (
+      <React.Fragment key={f}>
+        <line x1={f * 100} y1={0} x2={f * 100} y2={100} vectorEffect="non-scaling-stroke" />
+        <line x1={0} y1={f * 100} x2={100} y2={f * 100} vectorEffect="non-scaling-stroke" />
+      </React.Fragment>
+    ))}
+  </g>
+);
+
+// Framing guides drawn over the camera preview, stretched to the frame
+export const CompositionOverlay: React.FC<CompositionOverlayProps> = ({ guides, aspect }) => {
+  const crop = guides.aspectMask ? getCropRect(aspect, guides.aspectMask) : null;
+  const margin = guides.safeArea;
+
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      fill="none"
+      strokeWidth={1}
+    >
+      {crop && (
+        <path
+          d={`M0 0H100V100H0Z M${crop.x * 100} ${crop.y * 100}h${crop.width * 100}v${crop.height * 100}h${-crop.width * 100}Z`}
+          fillRule="evenodd"
+          className="fill-black/60"
+        />
+      )}
+      {guides.thirds && <GuideLines fractions={[1 / 3, 2 / 3]} className="stroke-white/40" />}
+      {guides.goldenRatio && <GuideLines fractions={[GOLDEN_SECTION, 1 - GOLDEN_SECTION]} className="stroke-amber-300/50" />}
+      {guides.centerCross && (
+        <g className="stroke-white/60">
+          <line x1={46} y1={50} x2={54} y2={50} vectorEffect="non-scaling-stroke" />
+          <line x1={50} y1={46} x2={50} y2={54} vectorEffect="non-scaling-stroke" />
+        </g>
+      )}
+      {margin !== null && (
+        <rect
+          x={margin * 100}
+          y={margin * 100}
+          width={100 - margin * 200}
+          height={100 - margin * 200}
+          strokeDasharray="3 2"
+          className="stroke-emerald-400/60"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default CompositionOverlay;
@@ -0,0 +1,85 @@
+import React, { useMemo, useLayoutEffect } from 'react';
+import * as THREE from 'three';
+import { StudioCyclorama } from '../types';
+import { FLOOR_Y } from '../services/setPieceService';
+
+const CURVE_SEGMENTS = 24;
+// Sits just above the floor plane to avoid z-fighting
+const SURFACE_LIFT = 0.002;
+
+// Cross-section of the sweep as [z, y] points from the front edge of the floor to the top of the wall
+const getProfile = ({ depth, curveRadius, distance, height }: StudioCyclorama): [number, number][] => {
+  const wallZ = -distance;
+  const radius = Math.min(curveRadius, height);
+  const points: [number, number][] = [[wallZ + radius + depth, 0]];
+  for (let i = 0; i <= CURVE_SEGMENTS; i++) {
+    const angle = (i / CURVE_SEGMENTS) * Math.PI / 2;
+    points.push([wallZ + radius - Math.sin(angle) * radius, radius - Math.cos(angle) * radius]);
+  }
+  points.push([wallZ, height]);
+  return points;
+};
+
+/**
+ * Build the cove as a strip extruded across its width. UV v runs along the sweep;
+ * with a gradient, vertex colors fade from the curve up to the top of the wall.
+ */
+export const createCycloramaGeometry = (cyclorama: StudioCyclorama): THREE.BufferGeometry => {
+  const profile = getProfile(cyclorama);
+  const halfWidth = cyclorama.width / 2;
+
+  // Arc length along the profile, for UVs and the gradient
+  const lengths = profile.reduce<number[]>((acc, point, i) => {
+    if (i === 0) return [0];
+    const [pz, py] = profile[i - 1];
+    return [...acc, acc[i - 1] + Math.hypot(point[0] - pz, point[1] - py)];
+  }, []);
+  const total = lengths[lengths.length - 1];
+  const curveStart = lengths[1];
+
+  const base = new THREE.Color(cyclorama.color);
+  const top = new THREE.Color(cyclorama.gradient ? cyclorama.gradientColor : cyclorama.color);
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+
+  profile.forEach(([z, y], i) => {
+    const t = Math.max(0, (lengths[i] - curveStart) / (total - curveStart || 1));
+    const color = base.clone().lerp(top, t);
+    [-halfWidth, halfWidth].forEach((x, side) => {
+      positions.push(x, FLOOR_Y + SURFACE_LIFT + y, z);
+      uvs.push(side, lengths[i] / total);
+      colors.push(color.r, color.g, color.b);
+    });
+    if (i > 0) {
+      const a = (i - 1) * 2;
+      const b = i * 2;
+      indices.push(a, a + 1, b, a + 1, b + 1, b);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// Infinity cove backdrop rendered behind the set
+export const Cyclorama: React.FC<{ cyclorama: StudioCyclorama; roughness: number; userData?: Record<string, unknown> }> = ({ cyclorama, roughness, userData }) => {
+  const geometry = useMemo(() => createCycloramaGeometry(cyclorama), [cyclorama]);
+
+  useLayoutEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh name="Cyclorama" userData={userData} geometry={geometry} receiveShadow>
+      <meshStandardMaterial vertexColors roughness={roughness} metalness={0} side={THREE.DoubleSide} />
+    </mesh>
+  );
+};
+
+export default Cyclorama;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { StudioCyclorama } from '../types';
+import { DEFAULT_CYCLORAMA } from '../constants';
+
+interface CycloramaEditorProps {
+  cyclorama?: StudioCyclorama;
+  onChange: (cyclorama: StudioCyclorama) => void;
+}
+
+// Infinity cove controls for the Studio set panel
+export const CycloramaEditor: React.FC<CycloramaEditorProps> = ({ cyclorama, onChange }) => {
+  const current: StudioCyclorama = { ...DEFAULT_CYCLORAMA, ...cyclorama };
+
+  const update = (updates: Partial<StudioCyclorama>) => onChange({ ...current, ...updates });
+
+  const sliders: { key: 'curveRadius' | 'width' | 'height' | 'depth' | 'distance'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'curveRadius', label: 'Curve Radius', min: 0.1, max: 4, step: 0.1 },
+    { key: 'width', label: 'Width', min: 4, max: 30, step: 0.5 },
+    { key: 'height', label: 'Height', min: 2, max: 15, step: 0.5 },
+    { key: 'depth', label: 'Floor Depth', min: 1, max: 20, step: 0.5 },
+    { key: 'distance', label: 'Wall Distance', min: 1, max: 15, step: 0.5 }
+  ];
+
+  return (
+    <div className="pt-2 border-t border-zinc-700/50 space-y-3">
+      <label className="flex items-center justify-between text-xs text-zinc-400 cursor-pointer">
+        <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Cyclorama Backdrop</span>
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      {current.enabled && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-zinc-400">Paint</span>
+            <input
+              type="color"
+              value={current.color}
+              onChange={(e) => update({ color: e.target.value })}
+              className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={current.gradient}
+                onChange={(e) => update({ gradient: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <span>Gradient to</span>
+            </label>
+            <input
+              type="color"
+              value={current.gradientColor}
+              disabled={!current.gradient}
+              onChange={(e) => update({ gradientColor: e.target.value })}
+              className="w-6 h-6 rounded cursor-pointer bg-transparent border-none disabled:opacity-30"
+            />
+          </div>
+
+          {sliders.map(slider => (
+            <div key={slider.key}>
+              <div className="flex justify-between text-xs mb-1">
+                <span>{slider.label}</span>
+                <span>{current[slider.key].toFixed(1)}</span>
+              </div>
+              <input
+                type="range"
+                min={slider.min} max={slider.max} step={slider.step}
+                value={current[slider.key]}
+                onChange={(e) => update({ [slider.key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CycloramaEditor;
@@ -0,0 +1,135 @@
+import React, { useRef } from 'react';
+import { Upload, X } from 'lucide-react';
+import { HdriPreset, StudioHdri } from '../types';
+import { DEFAULT_HDRI, HDRI_PRESETS } from '../constants';
+import { readFileAsDataUrl } from '../services/modelService';
+
+interface HdriEditorProps {
+  hdri?: StudioHdri;
+  onChange: (hdri: StudioHdri) => void;
+}
+
+// drei picks the HDR loader from the data URL's MIME type, which browsers leave generic for these files
+const readHdriFile = async (file: File): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() === 'exr' ? 'exr' : 'hdr';
+  const dataUrl = await readFileAsDataUrl(file);
+  return dataUrl.replace(/^data:[^;]*;/, `data:application/${extension};`);
+};
+
+// Environment map controls for the Studio lighting panel
+export const HdriEditor: React.FC<HdriEditorProps> = ({ hdri, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const current: StudioHdri = { ...DEFAULT_HDRI, ...hdri };
+
+  const update = (updates: Partial<StudioHdri>) => onChange({ ...current, ...updates });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const customUrl = await readHdriFile(file);
+      update({ customUrl, customFileName: file.name });
+    } catch (err) {
+      console.error(err);
+      alert('Failed to load environment map.');
+    }
+  };
+
+  const clearCustom = () => {
+    const { customUrl, customFileName, ...rest } = current;
+    onChange(rest);
+  };
+
+  const sliders: { key: 'intensity' | 'blur'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'intensity', label: 'Env Intensity', min: 0, max: 3, step: 0.05 },
+    { key: 'blur', label: 'Background Blur', min: 0, max: 1, step: 0.01 }
+  ];
+
+  return (
+    <div className="pt-2 border-t border-zinc-700/50 space-y-3">
+      <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Environment (HDRI)</div>
+
+      <div className="flex items-center gap-1.5">
+        {current.customUrl ? (
+          <div className="flex-1 min-w-0 flex items-center gap-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1">
+            <span className="flex-1 truncate text-xs text-zinc-200" title={current.customFileName}>
+              {current.customFileName || 'Custom HDRI'}
+            </span>
+            <button onClick={clearCustom} className="text-zinc-500 hover:text-red-400" title="Remove custom HDRI">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ) : (
+          <select
+            value={current.preset}
+            onChange={(e) => update({ preset: e.target.value as HdriPreset })}
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 capitalize"
+          >
+            {HDRI_PRESETS.map(preset => (
+              <option key={preset} value={preset}>{preset}</option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1.5 bg-zinc-700 hover:bg-zinc-600 rounded text-zinc-300 hover:text-white"
+          title="Upload .hdr / .exr"
+        >
+          <Upload className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs mb-1">
+          <span>Rotation</span>
+          <span>{Math.round(current.rotation * 180 / Math.PI)}°</span>
+        </div>
+        <input
+          type="range"
+          min="0" max={Math.PI * 2} step="0.01"
+          value={current.rotation}
+          onChange={(e) => update({ rotation: parseFloat(e.target.value) })}
+          className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+      </div>
+
+      {sliders.map(slider => (
+        <div key={slider.key}>
+          <div className="flex justify-between text-xs mb-1">
+            <span>{slider.label}</span>
+            <span>{current[slider.key].toFixed(2)}</span>
+          </div>
+          <input
+            type="range"
+            min={slider.min} max={slider.max} step={slider.step}
+            value={current[slider.key]}
+            onChange={(e) => update({ [slider.key]: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+          />
+        </div>
+      ))}
+
+      <label className="flex items-center justify-between text-xs text-zinc-400 cursor-pointer">
+        <span>Show as Background</span>
+        <input
+          type="checkbox"
+          checked={current.showBackground}
+          onChange={(e) => update({ showBackground: e.target.checked })}
+          className="accent-indigo-500"
+        />
+      </label>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".hdr,.exr"
+        onChange={handleFile}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default HdriEditor;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Focus } from 'lucide-react';
+import { SensorFormat, StudioCamera } from '../types';
+import { SENSOR_FORMATS, FOCAL_LENGTH_PRESETS, APERTURE_STOPS, getLens, describeLens } from '../services/cameraService';
+
+interface LensEditorProps {
+  camera: StudioCamera;
+  onChange: (updates: Partial<StudioCamera>) => void;
+  isFocusPicking: boolean;
+  onToggleFocusPick: () => void;
+}
+
+// Focal length, sensor, aperture and focus controls for the studio camera panel
+export const LensEditor: React.FC<LensEditorProps> = ({ camera, onChange, isFocusPicking, onToggleFocusPick }) => {
+  const lens = getLens(camera);
+
+  return (
+    <div className="pt-2 border-t border-red-800/30 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-red-400/80 uppercase tracking-wider">Lens</span>
+        <select
+          value={lens.sensor}
+          onChange={(e) => onChange({ sensor: e.target.value as SensorFormat, focalLength: lens.focalLength })}
+          className="bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 text-[10px] text-zinc-200"
+        >
+          {(Object.keys(SENSOR_FORMATS) as SensorFormat[]).map(sensor => (
+            <option key={sensor} value={sensor}>{SENSOR_FORMATS[sensor].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <div className="grid grid-cols-5 gap-1 mb-2">
+          {FOCAL_LENGTH_PRESETS.map(focalLength => (
+            <button
+              key={focalLength}
+              onClick={() => onChange({ focalLength })}
+              className={`text-[10px] py-1 rounded transition-colors ${
+                Math.round(lens.focalLength) === focalLength
+                  ? 'bg-red-700 text-white'
+                  : 'bg-zinc-800 hover:bg-red-800/50 text-zinc-300'
+              }`}
+            >
+              {focalLength}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs mb-1">
+          <span>Focal Length</span>
+          <span>{Math.round(lens.focalLength)}mm</span>
+        </div>
+        <input
+          type="range"
+          min="14" max="200" step="1"
+          value={lens.focalLength}
+          onChange={(e) => onChange({ focalLength: parseInt(e.target.value) })}
+          className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
+        />
+      </div>
+
+      <label className="flex items-center justify-between text-xs text-zinc-400 cursor-pointer">
+        <span>Depth of Field</span>
+        <input
+          type="checkbox"
+          checked={lens.depthOfField}
+          onChange={(e) => onChange({ depthOfField: e.target.checked })}
+          className="accent-red-500"
+        />
+      </label>
+
+      {lens.depthOfField && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-xs">Aperture</span>
+            <select
+              value={lens.aperture}
+              onChange={(e) => onChange({ aperture: parseFloat(e.target.value) })}
+              className="bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 text-xs text-zinc-200"
+            >
+              {APERTURE_STOPS.map(stop => (
+                <option key={stop} value={stop}>f/{stop}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div className="flex justify-between items-center text-xs mb-1">
+              <span>Focus Distance</span>
+              <div className="flex items-center gap-1.5">
+                <span>{lens.focusDistance.toFixed(2)}</span>
+                <button
+                  onClick={onToggleFocusPick}
+                  className={`p-1 rounded transition-colors ${
+                    isFocusPicking ? 'bg-red-600 text-white' : 'bg-zinc-800 hover:bg-red-800/50 text-zinc-400 hover:text-white'
+                  }`}
+                  title="Pick focus: click an object in the viewport"
+                >
+                  <Focus className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+            <input
+              type="range"
+              min="0.1" max="30" step="0.05"
+              value={lens.focusDistance}
+              onChange={(e) => onChange({ focusDistance: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
+            />
+          </div>
+        </>
+      )}
+
+      <p className="text-[10px] text-zinc-500 italic">{describeLens(camera).description}</p>
+    </div>
+  );
+};
+
+export default LensEditor;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { StudioLight } from '../types';
+
+// Which part of a light the viewport gizmo is moving
+export type LightHandle = 'position' | 'target';
+
+interface LightGizmoProps {
+  light: StudioLight;
+  isSelected: boolean;
+  onSelect: (handle: LightHandle) => void;
+  handleRef?: (handle: LightHandle, el: THREE.Object3D | null) => void;
+}
+
+const SELECTED_COLOR = '#facc15';
+
+const LightIcon: React.FC<{ light: StudioLight }> = ({ light }) => {
+  switch (light.type) {
+    case 'spot':
+      return <coneGeometry args={[0.15, 0.3, 16]} />;
+    case 'rect_area':
+      return <boxGeometry args={[0.35, 0.35, 0.05]} />;
+    case 'directional':
+      return <octahedronGeometry args={[0.18]} />;
+    case 'point':
+    default:
+      return <sphereGeometry args={[0.15, 16, 16]} />;
+  }
+};
+
+/**
+ * Viewport helper for a studio light: a clickable icon at the light, plus an aim
+ * line and draggable target handle for lights that point somewhere.
+ * Editor-only; not part of the exported or previewed scene.
+ */
+export const LightGizmo: React.FC<LightGizmoProps> = ({ light, isSelected, onSelect, handleRef }) => {
+  const isAimed = light.type !== 'point';
+  const color = isSelected ? SELECTED_COLOR : light.color;
+
+  const select = (handle: LightHandle) => (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onSelect(handle);
+  };
+
+  // Point the icon along the light direction
+  const direction = new THREE.Vector3(...light.target).sub(new THREE.Vector3(...light.position));
+  const iconRotation = isAimed && direction.lengthSq() > 0
+    ? new THREE.Euler().setFromQuaternion(
+        new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction.normalize())
+      )
+    : undefined;
+
+  return (
+    <>
+      <group
+        ref={handleRef ? (el) => handleRef('position', el) : undefined}
+        position={light.position}
+        onClick={select('position')}
+      >
+        <mesh rotation={iconRotation}>
+          <LightIcon light={light} />
+          <meshBasicMaterial color={color} wireframe={!isSelected} />
+        </mesh>
+      </group>
+
+      {isAimed && (
+        <Line
+          points={[light.position, light.target]}
+          color={color}
+          lineWidth={1}
+          dashed
+          dashSize={0.15}
+          gapSize={0.1}
+          transparent
+          opacity={isSelected ? 0.9 : 0.35}
+        />
+      )}
+
+      {isAimed && isSelected && (
+        <group
+          ref={handleRef ? (el) => handleRef('target', el) : undefined}
+          position={light.target}
+          onClick={select('target')}
+        >
+          <mesh>
+            <sphereGeometry args={[0.08, 12, 12]} />
+            <meshBasicMaterial color={SELECTED_COLOR} />
+          </mesh>
+        </group>
+      )}
+    </>
+  );
+};
+
+export default LightGizmo;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { StudioLight, StudioLightType } from '../types';
+import { LIGHT_TYPE_LABELS, createLight } from '../services/lightingService';
+
+interface LightRigEditorProps {
+  lights: StudioLight[];
+  onChange: (lights: StudioLight[]) => void;
+  // The expanded light follows the light selected in the objects list and viewport
+  activeLightId: string | null;
+  onActiveLightChange: (id: string | null) => void;
+}
+
+const VectorInput: React.FC<{
+  label: string;
+  value: [number, number, number];
+  onChange: (value: [number, number, number]) => void;
+}> = ({ label, value, onChange }) => (
+  <div>
+    <span className="text-[10px] text-zinc-500 block mb-1">{label}</span>
+    <div className="flex gap-1">
+      {([0, 1, 2] as const).map(axis => (
+        <input
+          key={axis}
+          type="number"
+          step={0.5}
+          value={value[axis]}
+          onChange={(e) => {
+            const parsed = parseFloat(e.target.value);
+            if (isNaN(parsed)) return;
+            const next: [number, number, number] = [value[0], value[1], value[2]];
+            next[axis] = parsed;
+            onChange(next);
+          }}
+          className="w-full min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+        />
+      ))}
+    </div>
+  </div>
+);
+
+// Add, remove and edit the named lights of the studio rig
+export const LightRigEditor: React.FC<LightRigEditorProps> = ({ lights, onChange, activeLightId, onActiveLightChange }) => {
+  const [newLightType, setNewLightType] = useState<StudioLightType>('point');
+
+  const updateLight = (id: string, updates: Partial<StudioLight>) => {
+    onChange(lights.map(light => light.id === id ? { ...light, ...updates } : light));
+  };
+
+  const removeLight = (id: string) => {
+    onChange(lights.filter(light => light.id !== id));
+    if (id === activeLightId) onActiveLightChange(null);
+  };
+
+  const addLight = () => {
+    const light = createLight(newLightType, { name: `${LIGHT_TYPE_LABELS[newLightType]} ${lights.length + 1}` });
+    onChange([...lights, light]);
+    onActiveLightChange(light.id);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {lights.map(light => {
+        const isExpanded = activeLightId === light.id;
+        return (
+          <div key={light.id} className="bg-zinc-900/60 rounded border border-zinc-700/50">
+            <div className="flex items-center gap-1.5 px-2 py-1.5">
+              <button
+                onClick={() => onActiveLightChange(isExpanded ? null : light.id)}
+                className="text-zinc-500 hover:text-white"
+              >
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </button>
+              <input
+                type="color"
+                value={light.color}
+                onChange={(e) => updateLight(light.id, { color: e.target.value })}
+                className="w-4 h-4 rounded cursor-pointer bg-transparent border-none shrink-0"
+              />
+              <input
+                value={light.name}
+                onChange={(e) => updateLight(light.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-xs text-zinc-200 focus:outline-none"
+              />
+              <span className="text-[9px] text-zinc-500 shrink-0">{LIGHT_TYPE_LABELS[light.type]}</span>
+              <button
+                onClick={() => removeLight(light.id)}
+                className="text-zinc-500 hover:text-red-400"
+                title="Remove light"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="px-2 pb-2 space-y-2 border-t border-zinc-700/50 pt-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-zinc-400">Type</span>
+                  <select
+                    value={light.type}
+                    onChange={(e) => updateLight(light.id, { type: e.target.value as StudioLightType })}
+                    className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+                  >
+                    {(Object.keys(LIGHT_TYPE_LABELS) as StudioLightType[]).map(type => (
+                      <option key={type} value={type}>{LIGHT_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span>Intensity</span>
+                    <span>{light.intensity.toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0" max="10" step="0.1"
+                    value={light.intensity}
+                    onChange={(e) => updateLight(light.id, { intensity: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  />
+                </div>
+                {light.type === 'spot' && (
+                  <div>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>Cone Angle</span>
+                      <span>{Math.round((light.angle ?? 0.5) * 180 / Math.PI)}°</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.05" max={Math.PI / 2} step="0.01"
+                      value={light.angle ?? 0.5}
+                      onChange={(e) => updateLight(light.id, { angle: parseFloat(e.target.value) })}
+                      className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                  </div>
+                )}
+                {light.type === 'rect_area' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['width', 'height'] as const).map(key => (
+                      <div key={key}>
+                        <span className="text-[10px] text-zinc-500 block mb-1">{key === 'width' ? 'Width' : 'Height'}</span>
+                        <input
+                          type="number"
+                          min={0.1} step={0.1}
+                          value={light[key] ?? 2}
+                          onChange={(e) => {
+                            const parsed = parseFloat(e.target.value);
+                            if (!isNaN(parsed)) updateLight(light.id, { [key]: parsed });
+                          }}
+                          className="w-full bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <VectorInput label="Position" value={light.position} onChange={(position) => updateLight(light.id, { position })} />
+                {light.type !== 'point' && (
+                  <VectorInput label="Target" value={light.target} onChange={(target) => updateLight(light.id, { target })} />
+                )}
+                {/* Rect-area lights can't cast shadows in three.js */}
+                {light.type !== 'rect_area' && (
+                  <label className="flex items-center justify-between text-xs text-zinc-400 cursor-pointer">
+                    <span>Cast Shadows</span>
+                    <input
+                      type="checkbox"
+                      checked={!!light.castShadow}
+                      onChange={(e) => updateLight(light.id, { castShadow: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-1.5 pt-1">
+        <select
+          value={newLightType}
+          onChange={(e) => setNewLightType(e.target.value as StudioLightType)}
+          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+        >
+          {(Object.keys(LIGHT_TYPE_LABELS) as StudioLightType[]).map(type => (
+            <option key={type} value={type}>{LIGHT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={addLight}
+          className="flex items-center gap-1 px-2 py-1 bg-zinc-700 hover:bg-zinc-600 rounded text-xs text-zinc-200"
+        >
+          <Plus className="w-3 h-3" /> Add Light
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LightRigEditor;
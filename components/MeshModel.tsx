@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { useGLTF } from '@react-three/drei';
+import * as THREE from 'three';
+import { computeModelNormalization } from '../services/modelService';
+
+interface MeshModelProps {
+  url: string;
+}
+
+// Renders an imported glTF/GLB asset, centered and resting on the object origin.
+// The loaded scene is cached per URL, so each canvas gets its own clone.
+export const MeshModel: React.FC<MeshModelProps> = ({ url }) => {
+  const { scene } = useGLTF(url);
+
+  const { model, normalization } = useMemo(() => {
+    const model = scene.clone(true);
+    model.traverse((child) => {
+      if ((child as THREE.Mesh).isMesh) {
+        child.castShadow = true;
+        child.receiveShadow = true;
+      }
+    });
+    return { model, normalization: computeModelNormalization(model) };
+  }, [scene]);
+
+  return (
+    <group scale={normalization.scale}>
+      <group position={normalization.offset}>
+        <primitive object={model} />
+      </group>
+    </group>
+  );
+};
+
+export default MeshModel;
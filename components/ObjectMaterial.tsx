@@ -0,0 +1,96 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { MaterialMaps, PhysicalMaterialProps } from '../types';
+
+// Material fields shared by studio objects and compound parts
+export interface MaterialSource extends PhysicalMaterialProps {
+  color: string;
+  roughness?: number;
+  metalness?: number;
+  maps?: MaterialMaps;
+}
+
+export const TEXTURE_MAP_SLOTS: { key: keyof Omit<MaterialMaps, 'repeat' | 'offset'>; label: string }[] = [
+  { key: 'albedoMap', label: 'Albedo' },
+  { key: 'normalMap', label: 'Normal' },
+  { key: 'roughnessMap', label: 'Roughness' },
+  { key: 'metalnessMap', label: 'Metalness' },
+  { key: 'alphaMap', label: 'Alpha' }
+];
+
+const textureLoader = new THREE.TextureLoader();
+
+// Loads a texture without suspending so the scene keeps rendering while images decode
+const useMapTexture = (url: string | undefined, isColor: boolean, maps?: MaterialMaps) => {
+  const texture = useMemo(() => {
+    if (!url) return null;
+    const tex = textureLoader.load(url);
+    tex.wrapS = THREE.RepeatWrapping;
+    tex.wrapT = THREE.RepeatWrapping;
+    if (isColor) tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, [url, isColor]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  const [repeatU, repeatV] = maps?.repeat || [1, 1];
+  const [offsetU, offsetV] = maps?.offset || [0, 0];
+  if (texture) {
+    texture.repeat.set(repeatU, repeatV);
+    texture.offset.set(offsetU, offsetV);
+  }
+  return texture;
+};
+
+interface ObjectMaterialProps {
+  source: MaterialSource;
+  highlighted?: boolean; // Viewport selection highlight
+}
+
+/**
+ * Physical PBR material for objects and parts, including uploaded texture maps,
+ * glass transmission, clearcoat, sheen and emission
+ */
+export const ObjectMaterial: React.FC<ObjectMaterialProps> = ({ source, highlighted }) => {
+  const maps = source.maps;
+  const map = useMapTexture(maps?.albedoMap, true, maps);
+  const normalMap = useMapTexture(maps?.normalMap, false, maps);
+  const roughnessMap = useMapTexture(maps?.roughnessMap, false, maps);
+  const metalnessMap = useMapTexture(maps?.metalnessMap, false, maps);
+  const alphaMap = useMapTexture(maps?.alphaMap, false, maps);
+
+  // Adding or removing a map changes the shader program, so remount the material
+  const programKey = [map, normalMap, roughnessMap, metalnessMap, alphaMap].map(t => (t ? 1 : 0)).join('');
+
+  // Selection glow only replaces emission on materials that don't glow on their own;
+  // it is tagged so scene export can strip it again
+  const hasOwnEmission = (source.emissiveIntensity ?? 0) > 0 && !!source.emissive;
+  const showHighlight = !!highlighted && !hasOwnEmission;
+
+  return (
+    <meshPhysicalMaterial
+      key={programKey}
+      color={source.color}
+      roughness={source.roughness ?? 0.5}
+      metalness={source.metalness ?? 0.5}
+      map={map}
+      normalMap={normalMap}
+      roughnessMap={roughnessMap}
+      metalnessMap={metalnessMap}
+      alphaMap={alphaMap}
+      transparent={!!alphaMap}
+      transmission={source.transmission ?? 0}
+      ior={source.ior ?? 1.5}
+      thickness={source.thickness ?? 0.5}
+      clearcoat={source.clearcoat ?? 0}
+      clearcoatRoughness={source.clearcoatRoughness ?? 0.1}
+      sheen={source.sheen ?? 0}
+      sheenColor={source.sheenColor || '#ffffff'}
+      emissive={showHighlight ? source.color : (source.emissive || '#000000')}
+      emissiveIntensity={showHighlight ? 0.2 : (source.emissiveIntensity ?? 0)}
+      userData={{ selectionHighlight: showHighlight }}
+    />
+  );
+};
+
+export default ObjectMaterial;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AspectRatioPreset, OutputFormat } from '../types';
+import { ASPECT_RATIO_PRESETS, MIN_OUTPUT_SIZE, MAX_OUTPUT_SIZE, createOutputFormat, createCustomOutputFormat, getProviderAspectRatio } from '../services/outputFormatService';
+
+interface OutputFormatEditorProps {
+  format: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+}
+
+const PRESETS = Object.keys(ASPECT_RATIO_PRESETS) as Exclude<AspectRatioPreset, 'custom'>[];
+
+// Aspect ratio presets plus exact pixel sizes for generated images
+export const OutputFormatEditor: React.FC<OutputFormatEditorProps> = ({ format, onChange }) => {
+  const longEdge = Math.max(format.width, format.height);
+
+  const setSize = (axis: 'width' | 'height', value: number) => {
+    if (isNaN(value) || value === format[axis]) return;
+    onChange(createCustomOutputFormat(
+      axis === 'width' ? value : format.width,
+      axis === 'height' ? value : format.height
+    ));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-1">
+        {PRESETS.map(aspect => (
+          <button
+            key={aspect}
+            onClick={() => onChange(createOutputFormat(aspect, longEdge))}
+            className={`text-[10px] py-1 rounded transition-colors ${
+              format.aspect === aspect ? 'bg-indigo-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'
+            }`}
+          >
+            {aspect}
+          </button>
+        ))}
+        <span className={`text-[10px] py-1 rounded text-center ${
+          format.aspect === 'custom' ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-500'
+        }`}>
+          Custom
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {(['width', 'height'] as const).map(axis => (
+          <label key={axis}>
+            <span className="text-[10px] text-zinc-500 block mb-1 capitalize">{axis} (px)</span>
+            <input
+              type="number"
+              step={8}
+              min={MIN_OUTPUT_SIZE}
+              max={MAX_OUTPUT_SIZE}
+              // Committed on blur so partially typed sizes aren't clamped
+              key={`${axis}-${format[axis]}`}
+              defaultValue={format[axis]}
+              onBlur={(e) => setSize(axis, parseInt(e.target.value))}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className="w-full min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+            />
+          </label>
+        ))}
+      </div>
+      {format.aspect === 'custom' && (
+        <p className="text-[10px] text-zinc-500">
+          Generators take an aspect ratio, not pixel sizes: this frame is generated at the nearest one, {getProviderAspectRatio(format)}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutputFormatEditor;
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import { ObjectPart } from '../types';
+
+// Default parameters for parametric part shapes. Every shape fits a unit box before part scale.
+export const PART_SHAPE_DEFAULTS = {
+  radius: 0.25,
+  length: 0.5,
+  cornerRadius: 0.1,
+  radiusTop: 0.3,
+  radiusBottom: 0.5,
+  arc: Math.PI,
+  tube: 0.2,
+  // Simple bottle silhouette, [radius, height] from bottom to top
+  profile: [
+    [0, -0.5], [0.35, -0.5], [0.4, -0.45], [0.4, 0.15],
+    [0.2, 0.3], [0.15, 0.45], [0.15, 0.5], [0, 0.5]
+  ] as [number, number][]
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const getLathePoints = (profile?: [number, number][]): THREE.Vector2[] => {
+  const points = (profile || [])
+    .filter(p => Array.isArray(p) && p.length >= 2 && isFinite(p[0]) && isFinite(p[1]))
+    .map(([r, y]) => new THREE.Vector2(Math.max(0, r), y));
+  if (points.length < 2) {
+    return PART_SHAPE_DEFAULTS.profile.map(([r, y]) => new THREE.Vector2(r, y));
+  }
+  return points;
+};
+
+/**
+ * Build the geometry for a compound object part
+ */
+export const createPartGeometry = (part: ObjectPart): THREE.BufferGeometry => {
+  switch (part.shape) {
+    case 'sphere':
+      return new THREE.SphereGeometry(0.5, 32, 32);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(0.5, 0.5, 1, 32);
+    case 'cone':
+      return new THREE.ConeGeometry(0.5, 1, 32);
+    case 'torus':
+      return new THREE.TorusGeometry(0.5, 0.2, 16, 32);
+    case 'capsule': {
+      const radius = clamp(part.radius ?? PART_SHAPE_DEFAULTS.radius, 0.01, 0.5);
+      const length = Math.max(0, part.length ?? PART_SHAPE_DEFAULTS.length);
+      return new THREE.CapsuleGeometry(radius, length, 8, 24);
+    }
+    case 'rounded_box': {
+      const cornerRadius = clamp(part.cornerRadius ?? PART_SHAPE_DEFAULTS.cornerRadius, 0, 0.5);
+      return new RoundedBoxGeometry(1, 1, 1, 4, cornerRadius);
+    }
+    case 'tapered_cylinder': {
+      const radiusTop = Math.max(0, part.radiusTop ?? PART_SHAPE_DEFAULTS.radiusTop);
+      const radiusBottom = Math.max(0, part.radiusBottom ?? PART_SHAPE_DEFAULTS.radiusBottom);
+      return new THREE.CylinderGeometry(radiusTop, radiusBottom, 1, 32);
+    }
+    case 'lathe':
+      return new THREE.LatheGeometry(getLathePoints(part.profile), 48);
+    case 'arc': {
+      const arc = clamp(part.arc ?? PART_SHAPE_DEFAULTS.arc, 0.01, Math.PI * 2);
+      const tube = clamp(part.tube ?? PART_SHAPE_DEFAULTS.tube, 0.01, 0.5);
+      return new THREE.TorusGeometry(0.5, tube, 16, 48, arc);
+    }
+    case 'cube':
+    default:
+      return new THREE.BoxGeometry(1, 1, 1);
+  }
+};
+
+// Attaches the part geometry to the parent mesh, rebuilding only when shape parameters change
+export const PartGeometry: React.FC<{ part: ObjectPart }> = ({ part }) => {
+  const { shape, radius, length, cornerRadius, radiusTop, radiusBottom, profile, arc, tube } = part;
+  const key = JSON.stringify([shape, radius, length, cornerRadius, radiusTop, radiusBottom, profile, arc, tube]);
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const geometry = useMemo(() => createPartGeometry(part), [key]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return <primitive object={geometry} attach="geometry" />;
+};
+
+export default PartGeometry;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { PhysicalMaterialProps } from '../types';
+
+type PhysicalSliderKey = 'transmission' | 'ior' | 'thickness' | 'clearcoat' | 'clearcoatRoughness' | 'sheen' | 'emissiveIntensity';
+
+const PHYSICAL_SLIDERS: { key: PhysicalSliderKey; label: string; min: number; max: number; step: number; fallback: number }[] = [
+  { key: 'transmission', label: 'Transmission', min: 0, max: 1, step: 0.01, fallback: 0 },
+  { key: 'ior', label: 'IOR', min: 1, max: 2.333, step: 0.01, fallback: 1.5 },
+  { key: 'thickness', label: 'Thickness', min: 0, max: 5, step: 0.05, fallback: 0.5 },
+  { key: 'clearcoat', label: 'Clearcoat', min: 0, max: 1, step: 0.01, fallback: 0 },
+  { key: 'clearcoatRoughness', label: 'Clearcoat Roughness', min: 0, max: 1, step: 0.01, fallback: 0.1 },
+  { key: 'sheen', label: 'Sheen', min: 0, max: 1, step: 0.01, fallback: 0 },
+  { key: 'emissiveIntensity', label: 'Emissive Intensity', min: 0, max: 10, step: 0.1, fallback: 0 }
+];
+
+interface PhysicalMaterialEditorProps {
+  material: PhysicalMaterialProps;
+  onChange: (updates: Partial<PhysicalMaterialProps>) => void;
+}
+
+// Glass, clearcoat, sheen and emission controls for the Studio material panel
+export const PhysicalMaterialEditor: React.FC<PhysicalMaterialEditorProps> = ({ material, onChange }) => {
+  const renderSlider = (slider: typeof PHYSICAL_SLIDERS[number]) => {
+    const value = material[slider.key] ?? slider.fallback;
+    return (
+      <div key={slider.key}>
+        <div className="flex justify-between text-xs mb-1">
+          <span>{slider.label}</span>
+          <span>{value.toFixed(2)}</span>
+        </div>
+        <input
+          type="range"
+          min={slider.min} max={slider.max} step={slider.step}
+          value={value}
+          onChange={(e) => onChange({ [slider.key]: parseFloat(e.target.value) })}
+          className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+      </div>
+    );
+  };
+
+  const sliders = (keys: PhysicalSliderKey[]) => PHYSICAL_SLIDERS.filter(s => keys.includes(s.key)).map(renderSlider);
+
+  return (
+    <div className="pt-2 border-t border-zinc-700/50 space-y-3">
+      <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Physical</div>
+
+      {sliders(['transmission', 'ior', 'thickness', 'clearcoat', 'clearcoatRoughness', 'sheen'])}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-zinc-400">Sheen Color</span>
+        <input
+          type="color"
+          value={material.sheenColor || '#ffffff'}
+          onChange={(e) => onChange({ sheenColor: e.target.value })}
+          className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-zinc-400">Emissive Color</span>
+        <input
+          type="color"
+          value={material.emissive || '#000000'}
+          onChange={(e) => onChange({ emissive: e.target.value })}
+          className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+        />
+      </div>
+
+      {sliders(['emissiveIntensity'])}
+    </div>
+  );
+};
+
+export default PhysicalMaterialEditor;
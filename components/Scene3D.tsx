@@ -1,214 +1,112 @@
-import React, { useRef, useImperativeHandle, forwardRef, useEffect } from 'react';
+import React, { useRef, useImperativeHandle, forwardRef, useEffect, useLayoutEffect, useMemo, useState } from 'react';
 import { Canvas, useThree } from '@react-three/fiber';
-import { ContactShadows, OrbitControls, PerspectiveCamera, Grid, Environment, TransformControls } from '@react-three/drei';
+import { OrbitControls, PerspectiveCamera, OrthographicCamera, Grid, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { StudioConfig, StudioObject, ObjectPart } from '../types';
+import { StudioConfig, StudioObject, ObjectPart, StudioLight, StudioCamera, CameraProjection } from '../types';
+import { StudioScene } from './StudioScene';
+import { LightGizmo, LightHandle } from './LightGizmo';
+import { CameraGizmo, CameraHandle } from './CameraGizmo';
+import { getTopLevelIds } from '../services/sceneGraph';
+import { ObjectBounds, measureObject } from '../services/layoutService';
+import { FLOOR_Y } from '../services/setPieceService';
+import { getOrthographicHeight, getOrthographicZoom } from '../services/cameraService';
 
 interface SceneProps {
   config: StudioConfig;
   objects: StudioObject[];
   activeObjectId: string;
-  onObjectSelect: (id: string) => void;
+  // Multi-selection: shift/ctrl click toggles, shift-drag draws a selection marquee
+  selectedObjectIds?: string[];
+  onObjectSelect: (id: string, additive?: boolean) => void;
+  onMarqueeSelect?: (ids: string[], additive: boolean) => void;
+  onObjectsTransformChange?: (updates: Record<string, Partial<StudioObject>>) => void;
+  // Snap increments for the transform gizmo; rotation in degrees
+  snap?: TransformSnap;
   transformMode?: 'translate' | 'rotate' | 'scale';
   onTransformChange?: (id: string, updates: Partial<StudioObject>) => void;
+  // Part edit mode: select and transform individual parts of the active compound object
+  partEditMode?: boolean;
+  activePartIndex?: number | null;
+  onPartSelect?: (index: number) => void;
+  onPartTransformChange?: (id: string, index: number, updates: Partial<ObjectPart>) => void;
+  // Light gizmos: select a light and drag its position or aim target
+  activeLightId?: string | null;
+  onLightSelect?: (id: string) => void;
+  onLightChange?: (id: string, updates: Partial<StudioLight>) => void;
+  // Studio camera gizmo: drag the camera or its look-at point. `commit` is false while dragging
+  studioCamera?: StudioCamera;
+  studioCameraAspect?: number; // Width / height of the camera's output frame
+  isStudioCameraSelected?: boolean;
+  onStudioCameraSelect?: () => void;
+  onStudioCameraChange?: (updates: Partial<StudioCamera>, commit: boolean) => void;
 }
 
+// Viewport camera pose, in the same terms as a StudioCamera
+export type Viewpoint = Pick<StudioCamera, 'position' | 'lookAt' | 'fov' | 'projection' | 'zoom'>;
+
 export interface Scene3DRef {
   captureSnapshot: () => string;
   getCameraContext: () => string;
+  getScene: () => THREE.Scene | null;
+  getObjectBounds: (ids: string[]) => ObjectBounds;
+  getObjectNodes: () => Record<string, THREE.Object3D>;
+  getViewpoint: () => Viewpoint | null;
+  setViewpoint: (viewpoint: Viewpoint) => void;
 }
 
-const Platform: React.FC<{ config: StudioConfig['environment'] }> = ({ config }) => {
-    if (config.platformType === 'none') return null;
-
-    const materialProps = {
-        color: config.platformColor,
-        roughness: config.platformMaterial === 'matte' ? 0.8 : config.platformMaterial === 'wood' ? 0.6 : 0.1,
-        metalness: config.platformMaterial === 'metal' ? 0.8 : 0.1,
-    };
-
-    if (config.platformType === 'round_table') {
-        return (
-            <group position={[0, -0.5, 0]}>
-                {/* Table Top */}
-                <mesh position={[0, 0.5, 0]} castShadow receiveShadow>
-                    <cylinderGeometry args={[1.8, 1.8, 0.1, 64]} />
-                    <meshStandardMaterial {...materialProps} />
-                </mesh>
-                {/* Table Leg */}
-                <mesh position={[0, -0.25, 0]} castShadow receiveShadow>
-                    <cylinderGeometry args={[0.2, 0.4, 1.5, 32]} />
-                    <meshStandardMaterial {...materialProps} />
-                </mesh>
-                {/* Table Base */}
-                <mesh position={[0, -1.0, 0]} castShadow receiveShadow>
-                     <cylinderGeometry args={[0.8, 0.8, 0.1, 32]} />
-                     <meshStandardMaterial {...materialProps} />
-                </mesh>
-            </group>
-        );
-    }
-
-    if (config.platformType === 'cube') {
-        return (
-            <mesh position={[0, -0.75, 0]} castShadow receiveShadow>
-                <boxGeometry args={[2, 1.5, 2]} />
-                <meshStandardMaterial {...materialProps} />
-            </mesh>
-        );
-    }
-    
-    // Default Cylinder/Podium
-    return (
-        <mesh position={[0, -0.75, 0]} castShadow receiveShadow>
-            <cylinderGeometry args={[1.2, 1.2, 1.5, 64]} />
-            <meshStandardMaterial {...materialProps} />
-        </mesh>
-    );
-};
-
-// Component to render individual parts of a compound object
-const PartMesh: React.FC<{ part: ObjectPart }> = ({ part }) => {
-    const materialProps = {
-        color: part.color,
-        roughness: part.roughness ?? 0.5,
-        metalness: part.metalness ?? 0.5
-    };
-
-    let Geometry = <boxGeometry args={[1, 1, 1]} />;
-    if (part.shape === 'sphere') Geometry = <sphereGeometry args={[0.5, 32, 32]} />;
-    if (part.shape === 'cylinder') Geometry = <cylinderGeometry args={[0.5, 0.5, 1, 32]} />;
-    if (part.shape === 'cone') Geometry = <coneGeometry args={[0.5, 1, 32]} />;
-    if (part.shape === 'torus') Geometry = <torusGeometry args={[0.5, 0.2, 16, 32]} />;
-
-    // Convert arrays to vectors/eulers for R3F
-    const position = new THREE.Vector3(...part.position);
-    const rotation = new THREE.Euler(...part.rotation);
-    const scale = new THREE.Vector3(...part.scale);
-
-    return (
-        <mesh position={position} rotation={rotation} scale={scale} castShadow receiveShadow>
-            {Geometry}
-            <meshStandardMaterial {...materialProps} />
-        </mesh>
-    );
-};
-
-interface CustomObjectProps {
-    object: StudioObject;
-    platformType: string;
-    isSelected: boolean;
-    onClick: (e: any) => void;
+export interface TransformSnap {
+  enabled: boolean;
+  translate: number;
+  rotate: number;
+  scale: number;
 }
 
-const CustomObject = forwardRef<THREE.Object3D, CustomObjectProps>(({ object, platformType, isSelected, onClick }, ref) => {
-  const internalRef = useRef<THREE.Group>(null);
-  
-  // Merge refs
-  useImperativeHandle(ref, () => internalRef.current as THREE.Object3D);
-
-  let yOffset = 0;
-  if (platformType !== 'none') {
-      yOffset = 0.5; 
-      if (platformType === 'round_table') yOffset = 0.6;
-  }
-
-  const position = new THREE.Vector3(...(object.position || [0,0,0]));
-  position.y += yOffset;
-  const rotation = new THREE.Euler(...(object.rotation || [0,0,0]));
-  const scale = new THREE.Vector3(...(object.scale || [1,1,1]));
-
-  // Visual highlight for selection
-  const emissionProps = isSelected ? { emissive: object.color, emissiveIntensity: 0.2 } : {};
-
-  // Render Compound Object (AI Generated Parts)
-  if (object.type === 'compound' && object.parts && object.parts.length > 0) {
-      return (
-          <group 
-            ref={internalRef}
-            position={position}
-            rotation={rotation}
-            scale={scale}
-            onClick={onClick}
-          >
-              {object.parts.map((part, index) => (
-                  <PartMesh key={index} part={part} />
-              ))}
-              {/* Invisible hitbox for easier selection if sparse */}
-              <mesh visible={false}>
-                  <boxGeometry args={[1,1,1]} />
-              </mesh>
-          </group>
-      )
-  }
-
-  // Fallback: Primitive Object
-  let Geometry = <torusKnotGeometry args={[0.6, 0.2, 100, 16]} />;
-  if (object.shape === 'cube') Geometry = <boxGeometry args={[1.2, 1.2, 1.2]} />;
-  if (object.shape === 'sphere') Geometry = <sphereGeometry args={[0.8, 32, 32]} />;
-  if (object.shape === 'cylinder') Geometry = <cylinderGeometry args={[0.8, 0.8, 1.5, 32]} />;
-
-  return (
-    <mesh 
-      ref={internalRef as any} 
-      position={position} 
-      rotation={rotation} 
-      scale={scale}
-      castShadow 
-      receiveShadow
-      onClick={onClick}
-    >
-      {Geometry}
-      <meshStandardMaterial 
-        color={object.color} 
-        roughness={object.roughness ?? 0.5} 
-        metalness={object.metalness ?? 0.5} 
-        {...emissionProps}
-      />
-    </mesh>
-  );
-});
-
-CustomObject.displayName = 'CustomObject';
-
-const StudioLights: React.FC<{ lighting: StudioConfig['lighting'] }> = ({ lighting }) => {
-  // Defensive coding: Ensure positions are defined before spreading
-  const keyPos = lighting.keyLightPosition ?? [5, 5, 5];
-  const fillPos = lighting.fillLightPosition ?? [-5, 2, 5];
-  const rimPos = lighting.rimLightPosition ?? [0, 5, -5];
+interface MarqueeRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
 
-  return (
-    <>
-      <ambientLight 
-        intensity={lighting.ambientIntensity ?? 0.3} 
-        color={lighting.ambientColor || '#ffffff'} 
-      />
-      <directionalLight
-        position={new THREE.Vector3(...keyPos)}
-        intensity={lighting.keyLightIntensity ?? 1.0}
-        color={lighting.keyLightColor || '#ffffff'}
-        castShadow
-        shadow-bias={-0.0001}
-      />
-      <pointLight
-        position={new THREE.Vector3(...fillPos)}
-        intensity={lighting.fillLightIntensity ?? 0.5}
-        color={lighting.fillLightColor || '#e0e0e0'}
-      />
-      <spotLight
-        position={new THREE.Vector3(...rimPos)}
-        intensity={lighting.rimLightIntensity ?? 0.2}
-        color={lighting.rimLightColor || '#ffffff'}
-        angle={0.5}
-        penumbra={1}
-      />
-    </>
-  );
+// Marquee drags shorter than this are treated as clicks
+const MARQUEE_THRESHOLD = 4;
+
+// Objects whose bounding box center projects inside the marquee (in canvas pixels)
+const getObjectsInRect = (
+  nodes: Record<string, THREE.Object3D>,
+  camera: THREE.Camera,
+  rect: MarqueeRect,
+  width: number,
+  height: number
+): string[] => {
+  const minX = Math.min(rect.x0, rect.x1), maxX = Math.max(rect.x0, rect.x1);
+  const minY = Math.min(rect.y0, rect.y1), maxY = Math.max(rect.y0, rect.y1);
+
+  return Object.entries(nodes).filter(([, node]) => {
+    const box = new THREE.Box3().setFromObject(node);
+    if (box.isEmpty()) return false;
+    const ndc = box.getCenter(new THREE.Vector3()).project(camera);
+    if (ndc.z > 1) return false; // Behind the camera
+    const x = (ndc.x + 1) / 2 * width;
+    const y = (1 - ndc.y) / 2 * height;
+    return x >= minX && x <= maxX && y >= minY && y <= maxY;
+  }).map(([id]) => id);
 };
 
-const SceneHandler = forwardRef((props, ref) => {
+// Switching projection rebuilds the orbit controls for the other camera; the orbit target is carried over
+const SceneHandler = forwardRef<unknown, { orbitTargetRef: React.MutableRefObject<THREE.Vector3 | null> }>(({ orbitTargetRef }, ref) => {
   const { gl, scene, camera } = useThree();
+  const controls = useThree(state => state.controls) as (THREE.EventDispatcher & { target: THREE.Vector3; update: () => void }) | null;
+  useEffect(() => {
+    const target = orbitTargetRef.current;
+    if (!controls || !target) return;
+    controls.target.copy(target);
+    controls.update();
+    orbitTargetRef.current = null;
+  }, [controls, orbitTargetRef]);
   useImperativeHandle(ref, () => ({
+    getScene: () => scene,
+    getCamera: () => camera,
     capture: () => {
       gl.render(scene, camera);
       return gl.domElement.toDataURL('image/png');
@@ -260,10 +158,73 @@ const SceneHandler = forwardRef((props, ref) => {
   return null;
 });
 
-export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, activeObjectId, onObjectSelect, transformMode, onTransformChange }, ref) => {
-  const sceneHandlerRef = useRef<{ capture: () => string; getCameraContext: () => string; getCameraPosition: () => [number, number, number] }>(null);
+export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, activeObjectId, selectedObjectIds, onObjectSelect, onMarqueeSelect, onObjectsTransformChange, snap, transformMode, onTransformChange, partEditMode, activePartIndex, onPartSelect, onPartTransformChange, activeLightId, onLightSelect, onLightChange, studioCamera, studioCameraAspect = 4 / 3, isStudioCameraSelected, onStudioCameraSelect, onStudioCameraChange }, ref) => {
+  const sceneHandlerRef = useRef<{ capture: () => string; getCameraContext: () => string; getCameraPosition: () => [number, number, number]; getScene: () => THREE.Scene; getCamera: () => THREE.Camera }>(null);
   const orbitControlsRef = useRef<any>(null);
+  // The viewport can look through orthographic studio cameras without perspective
+  const [viewProjection, setViewProjection] = useState<CameraProjection>('perspective');
+  const perspectiveCameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const orthographicCameraRef = useRef<THREE.OrthographicCamera>(null);
+  const orbitTargetRef = useRef<THREE.Vector3 | null>(null);
   const objectRefs = useRef<Record<string, THREE.Object3D>>({});
+  const partRefs = useRef<Record<number, THREE.Object3D>>({});
+  const lightHandleRefs = useRef<Record<string, Partial<Record<LightHandle, THREE.Object3D>>>>({});
+  const [activeLightHandle, setActiveLightHandle] = useState<LightHandle>('position');
+  const cameraHandleRefs = useRef<Partial<Record<CameraHandle, THREE.Object3D>>>({});
+  const [activeCameraHandle, setActiveCameraHandle] = useState<CameraHandle>('position');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const marqueeStartRef = useRef<{ x: number; y: number; additive: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [marquee, setMarquee] = useState<MarqueeRect | null>(null);
+
+  const getViewpoint = (): Viewpoint | null => {
+    const camera = sceneHandlerRef.current?.getCamera();
+    const target = orbitControlsRef.current?.target as THREE.Vector3 | undefined;
+    if (!camera || !target) return null;
+    const pose = {
+      position: [camera.position.x, camera.position.y, camera.position.z] as [number, number, number],
+      lookAt: [target.x, target.y, target.z] as [number, number, number]
+    };
+    if (camera instanceof THREE.OrthographicCamera) {
+      return {
+        ...pose,
+        fov: Math.round(perspectiveCameraRef.current?.fov ?? 50),
+        projection: 'orthographic',
+        // The viewport frustum is in pixels; zoom scales it down to scene units
+        zoom: getOrthographicZoom((camera.top - camera.bottom) / camera.zoom)
+      };
+    }
+    if (camera instanceof THREE.PerspectiveCamera) {
+      return { ...pose, fov: Math.round(camera.fov), projection: 'perspective' };
+    }
+    return null;
+  };
+
+  const setViewpoint = ({ position, lookAt, fov, projection = 'perspective', zoom }: Viewpoint) => {
+    const camera = projection === 'orthographic' ? orthographicCameraRef.current : perspectiveCameraRef.current;
+    const controls = orbitControlsRef.current;
+    if (!camera || !controls) return;
+    camera.position.set(...position);
+    if (camera instanceof THREE.OrthographicCamera) {
+      camera.zoom = (camera.top - camera.bottom) / getOrthographicHeight({ zoom });
+    } else {
+      camera.fov = fov;
+    }
+    camera.updateProjectionMatrix();
+
+    if (projection === viewProjection) {
+      controls.target.set(...lookAt);
+      controls.update();
+    } else {
+      camera.lookAt(...lookAt);
+      orbitTargetRef.current = new THREE.Vector3(...lookAt);
+      setViewProjection(projection);
+    }
+  };
+
+  // Shared pivot for transforming several objects at once
+  const pivot = useMemo(() => new THREE.Object3D(), []);
+  const groupDragRef = useRef<{ pivotInverse: THREE.Matrix4; nodes: { id: string; node: THREE.Object3D; world: THREE.Matrix4 }[] } | null>(null);
 
   useImperativeHandle(ref, () => ({
     captureSnapshot: () => {
@@ -278,6 +239,19 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
         }
         return 'Front View';
     },
+    getScene: () => sceneHandlerRef.current?.getScene() ?? null,
+    // World-space bounding boxes as rendered, including imported models and children
+    getObjectBounds: (ids: string[]) => {
+        const bounds: ObjectBounds = {};
+        ids.forEach(id => {
+            const node = objectRefs.current[id];
+            if (node) bounds[id] = measureObject(node);
+        });
+        return bounds;
+    },
+    getObjectNodes: () => ({ ...objectRefs.current }),
+    getViewpoint,
+    setViewpoint,
     getCameraPosition: () => {
         if (sceneHandlerRef.current) {
             return sceneHandlerRef.current.getCameraPosition();
@@ -287,6 +261,24 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
   }));
 
   const activeObject = objects.find(o => o.id === activeObjectId);
+  const isEditingParts = !!partEditMode && activeObject?.type === 'compound';
+  const activePartRef = isEditingParts && activePartIndex != null ? partRefs.current[activePartIndex] : undefined;
+  const transformTarget = isEditingParts ? activePartRef : objectRefs.current[activeObjectId];
+  const multiSelectIds = isEditingParts ? [] : getTopLevelIds(objects, selectedObjectIds || []);
+  const isMultiSelect = multiSelectIds.length > 1;
+  const snapEnabled = !!snap?.enabled;
+  const activeLight = config.lighting.lights.find(l => l.id === activeLightId);
+  const lightTransformTarget = activeLight ? lightHandleRefs.current[activeLight.id]?.[activeLightHandle] : undefined;
+  const cameraTransformTarget = studioCamera && isStudioCameraSelected ? cameraHandleRefs.current[activeCameraHandle] : undefined;
+
+  // Each newly selected light starts with its position handle
+  useEffect(() => {
+     setActiveLightHandle('position');
+  }, [activeLightId]);
+
+  useEffect(() => {
+     if (!isStudioCameraSelected) setActiveCameraHandle('position');
+  }, [isStudioCameraSelected]);
   
   // Cleanup refs for removed objects
   useEffect(() => {
@@ -298,16 +290,138 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
      });
   }, [objects]);
 
+  // Place the pivot at the center of the selection whenever it or the objects change
+  useLayoutEffect(() => {
+    if (!isMultiSelect || groupDragRef.current) return;
+    const center = new THREE.Vector3();
+    let count = 0;
+    multiSelectIds.forEach(id => {
+      const node = objectRefs.current[id];
+      if (!node) return;
+      node.updateWorldMatrix(true, false);
+      center.add(new THREE.Vector3().setFromMatrixPosition(node.matrixWorld));
+      count++;
+    });
+    if (count === 0) return;
+    pivot.position.copy(center.divideScalar(count));
+    pivot.quaternion.identity();
+    pivot.scale.set(1, 1, 1);
+    pivot.updateMatrixWorld();
+  });
+
+  const handleGroupTransformStart = () => {
+    pivot.updateMatrixWorld();
+    groupDragRef.current = {
+      pivotInverse: pivot.matrixWorld.clone().invert(),
+      nodes: multiSelectIds
+        .filter(id => objectRefs.current[id])
+        .map(id => {
+          const node = objectRefs.current[id];
+          node.updateWorldMatrix(true, false);
+          return { id, node, world: node.matrixWorld.clone() };
+        })
+    };
+  };
+
+  // Apply the pivot's movement to every selected object, keeping their relative layout
+  const handleGroupTransformChange = () => {
+    const drag = groupDragRef.current;
+    if (!drag) return;
+    pivot.updateMatrixWorld();
+    const delta = pivot.matrixWorld.clone().multiply(drag.pivotInverse);
+    drag.nodes.forEach(({ node, world }) => {
+      const local = delta.clone().multiply(world);
+      if (node.parent) local.premultiply(node.parent.matrixWorld.clone().invert());
+      local.decompose(node.position, node.quaternion, node.scale);
+    });
+  };
+
+  const handleGroupTransformEnd = () => {
+    const drag = groupDragRef.current;
+    groupDragRef.current = null;
+    if (!drag || !onObjectsTransformChange) return;
+
+    const updates: Record<string, Partial<StudioObject>> = {};
+    drag.nodes.forEach(({ id, node }) => {
+      updates[id] = {
+        position: [node.position.x, node.position.y, node.position.z],
+        rotation: [node.rotation.x, node.rotation.y, node.rotation.z],
+        scale: [node.scale.x, node.scale.y, node.scale.z]
+      };
+    });
+    onObjectsTransformChange(updates);
+  };
+
+  const getLocalPoint = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleMarqueeStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    suppressClickRef.current = false;
+    if (!e.shiftKey || !onMarqueeSelect || e.button !== 0) return;
+    marqueeStartRef.current = { ...getLocalPoint(e), additive: e.ctrlKey || e.metaKey };
+    // Shift-drag would otherwise pan the orbit camera
+    if (orbitControlsRef.current) orbitControlsRef.current.enabled = false;
+  };
+
+  const handleMarqueeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = marqueeStartRef.current;
+    if (!start) return;
+    const { x, y } = getLocalPoint(e);
+    if (!marquee && Math.hypot(x - start.x, y - start.y) < MARQUEE_THRESHOLD) return;
+    if (!marquee) e.currentTarget.setPointerCapture(e.pointerId);
+    setMarquee({ x0: start.x, y0: start.y, x1: x, y1: y });
+  };
+
+  const handleMarqueeEnd = () => {
+    const start = marqueeStartRef.current;
+    marqueeStartRef.current = null;
+    if (!start) return;
+    if (orbitControlsRef.current) orbitControlsRef.current.enabled = true;
+    if (!marquee) return;
+
+    setMarquee(null);
+    const camera = sceneHandlerRef.current?.getCamera();
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!camera || !rect || !onMarqueeSelect) return;
+    // The click that ends a drag must not also toggle the object under the cursor
+    suppressClickRef.current = true;
+    onMarqueeSelect(getObjectsInRect(objectRefs.current, camera, marquee, rect.width, rect.height), start.additive);
+  };
+
+  const handleLightTransformEnd = () => {
+    if (!activeLight || !lightTransformTarget || !onLightChange) return;
+    // Gizmos live at the scene root, so their position is already in world space
+    const { x, y, z } = lightTransformTarget.position;
+    onLightChange(activeLight.id, { [activeLightHandle]: [x, y, z] });
+  };
+
+  // The camera handle sits at the scene root; 'position' moves the camera, 'target' its look-at point
+  const handleCameraTransform = (commit: boolean) => {
+    if (!cameraTransformTarget || !onStudioCameraChange) return;
+    const { x, y, z } = cameraTransformTarget.position;
+    onStudioCameraChange(activeCameraHandle === 'position' ? { position: [x, y, z] } : { lookAt: [x, y, z] }, commit);
+  };
+
   const handleTransformEnd = () => {
-    if (activeObject && objectRefs.current[activeObjectId] && onTransformChange) {
-        const obj = objectRefs.current[activeObjectId];
-        let yOffset = 0;
-        if (config.environment.platformType !== 'none') {
-            yOffset = 0.5;
-            if (config.environment.platformType === 'round_table') yOffset = 0.6;
+    // Parts are written back in the compound object's local space
+    if (isEditingParts) {
+        if (activePartIndex != null && activePartRef && onPartTransformChange) {
+            const part = activePartRef;
+            onPartTransformChange(activeObjectId, activePartIndex, {
+                position: [part.position.x, part.position.y, part.position.z],
+                rotation: [part.rotation.x, part.rotation.y, part.rotation.z],
+                scale: [part.scale.x, part.scale.y, part.scale.z]
+            });
         }
+        return;
+    }
 
-        const newPos = [obj.position.x, obj.position.y - yOffset, obj.position.z] as [number, number, number];
+    if (activeObject && objectRefs.current[activeObjectId] && onTransformChange) {
+        // Transforms are read in parent space, matching StudioObject's local transform
+        const obj = objectRefs.current[activeObjectId];
+        const newPos = [obj.position.x, obj.position.y, obj.position.z] as [number, number, number];
         const newRot = [obj.rotation.x, obj.rotation.y, obj.rotation.z] as [number, number, number];
         const newScale = [obj.scale.x, obj.scale.y, obj.scale.z] as [number, number, number];
 
@@ -320,15 +434,22 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
   };
 
   return (
-    <div className="w-full h-full bg-black relative overflow-hidden rounded-lg border border-zinc-800">
+    <div
+      ref={containerRef}
+      className="w-full h-full bg-black relative overflow-hidden rounded-lg border border-zinc-800"
+      onPointerDownCapture={handleMarqueeStart}
+      onPointerMove={handleMarqueeMove}
+      onPointerUp={handleMarqueeEnd}
+    >
       <div 
         className="absolute inset-0 z-0 transition-colors duration-700 ease-in-out"
         style={{ backgroundColor: config.environment.backgroundColor }}
       />
       
       <Canvas shadows dpr={[1, 2]} className="z-10 relative" gl={{ preserveDrawingBuffer: true }}>
-        <SceneHandler ref={sceneHandlerRef} />
-        <PerspectiveCamera makeDefault position={[0, 2, 6]} fov={50} />
+        <SceneHandler ref={sceneHandlerRef} orbitTargetRef={orbitTargetRef} />
+        <PerspectiveCamera ref={perspectiveCameraRef} makeDefault={viewProjection === 'perspective'} position={[0, 2, 6]} fov={50} />
+        <OrthographicCamera ref={orthographicCameraRef} makeDefault={viewProjection === 'orthographic'} position={[0, 2, 6]} near={0.1} far={1000} />
         <OrbitControls 
             ref={orbitControlsRef}
             minPolarAngle={0.1}           // Allow looking from almost directly above
@@ -337,27 +458,119 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
             makeDefault
         />
 
-        <Environment preset="studio" blur={1} background={false} />
-        <StudioLights lighting={config.lighting} />
-        <Platform config={config.environment} />
-
-        {objects.map(obj => (
-            <CustomObject 
-                key={obj.id}
-                ref={(el) => { if (el) objectRefs.current[obj.id] = el }}
-                object={obj} 
-                platformType={config.environment.platformType}
-                isSelected={obj.id === activeObjectId}
-                onClick={(e) => {
-                    e.stopPropagation();
-                    onObjectSelect(obj.id);
+        <StudioScene
+            config={config}
+            objects={objects}
+            activeObjectId={activeObjectId}
+            selectedObjectIds={selectedObjectIds}
+            onObjectSelect={(id, additive) => {
+                if (suppressClickRef.current) return;
+                onObjectSelect(id, additive);
+            }}
+            objectRef={(id, el) => { if (el) objectRefs.current[id] = el }}
+            partEditObjectId={isEditingParts ? activeObjectId : undefined}
+            activePartIndex={activePartIndex}
+            onPartSelect={onPartSelect}
+            partRef={(index, el) => {
+                if (el) partRefs.current[index] = el;
+                else delete partRefs.current[index];
+            }}
+        />
+        
+        {/* Light helpers are editor-only and stay out of the shared studio scene */}
+        {config.lighting.lights.map(light => (
+            <LightGizmo
+                key={light.id}
+                light={light}
+                isSelected={light.id === activeLightId}
+                onSelect={(handle) => {
+                    onLightSelect?.(light.id);
+                    setActiveLightHandle(handle);
+                }}
+                handleRef={(handle, el) => {
+                    const handles = lightHandleRefs.current[light.id] || (lightHandleRefs.current[light.id] = {});
+                    if (el) handles[handle] = el;
+                    else delete handles[handle];
                 }}
             />
         ))}
-        
-        {transformMode && activeObject && objectRefs.current[activeObjectId] && (
+
+        {studioCamera && (
+            <CameraGizmo
+                camera={studioCamera}
+                aspect={studioCameraAspect}
+                isSelected={!!isStudioCameraSelected}
+                onSelect={(handle) => {
+                    onStudioCameraSelect?.();
+                    setActiveCameraHandle(handle);
+                }}
+                handleRef={(handle, el) => {
+                    if (el) cameraHandleRefs.current[handle] = el;
+                    else delete cameraHandleRefs.current[handle];
+                }}
+            />
+        )}
+
+        {cameraTransformTarget && (
             <TransformControls 
-                object={objectRefs.current[activeObjectId]} 
+                object={cameraTransformTarget} 
+                mode="translate" 
+                onMouseDown={() => { 
+                    if(orbitControlsRef.current) orbitControlsRef.current.enabled = false; 
+                }}
+                onObjectChange={() => handleCameraTransform(false)}
+                onMouseUp={() => { 
+                    if(orbitControlsRef.current) orbitControlsRef.current.enabled = true; 
+                    handleCameraTransform(true); 
+                }}
+                size={0.6}
+                translationSnap={snapEnabled ? snap!.translate : null}
+            />
+        )}
+
+        {activeLight && lightTransformTarget && (
+            <TransformControls 
+                object={lightTransformTarget} 
+                mode="translate" 
+                onMouseDown={() => { 
+                    if(orbitControlsRef.current) orbitControlsRef.current.enabled = false; 
+                }}
+                onMouseUp={() => { 
+                    if(orbitControlsRef.current) orbitControlsRef.current.enabled = true; 
+                    handleLightTransformEnd(); 
+                }}
+                size={0.6}
+                translationSnap={snapEnabled ? snap!.translate : null}
+            />
+        )}
+
+        {!activeLight && transformMode && isMultiSelect && (
+            <>
+                <primitive object={pivot} />
+                <TransformControls 
+                    object={pivot} 
+                    mode={transformMode} 
+                    onMouseDown={() => { 
+                        if(orbitControlsRef.current) orbitControlsRef.current.enabled = false; 
+                        handleGroupTransformStart();
+                    }}
+                    onObjectChange={handleGroupTransformChange}
+                    translationSnap={snapEnabled ? snap!.translate : null}
+                    rotationSnap={snapEnabled ? THREE.MathUtils.degToRad(snap!.rotate) : null}
+                    scaleSnap={snapEnabled ? snap!.scale : null}
+                    onMouseUp={() => { 
+                        if(orbitControlsRef.current) orbitControlsRef.current.enabled = true; 
+                        handleGroupTransformEnd(); 
+                    }}
+                    space="local"
+                    size={0.8}
+                />
+            </>
+        )}
+
+        {!activeLight && !isMultiSelect && transformMode && activeObject && transformTarget && (
+            <TransformControls 
+                object={transformTarget} 
                 mode={transformMode} 
                 onMouseDown={() => { 
                     if(orbitControlsRef.current) orbitControlsRef.current.enabled = false; 
@@ -368,29 +581,39 @@ export const Scene3D = forwardRef<Scene3DRef, SceneProps>(({ config, objects, ac
                 }}
                 space="local"
                 size={0.8}
+                translationSnap={snapEnabled ? snap!.translate : null}
+                rotationSnap={snapEnabled ? THREE.MathUtils.degToRad(snap!.rotate) : null}
+                scaleSnap={snapEnabled ? snap!.scale : null}
             />
         )}
 
-        <ContactShadows 
-          position={[0, -1.55, 0]} 
-          opacity={0.5} 
-          scale={10} 
-          blur={1.5} 
-          far={4.5} 
-          color="#000000"
-        />
-
-        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -1.6, 0]} receiveShadow>
-          <planeGeometry args={[50, 50]} />
-          <meshStandardMaterial 
-            color={config.environment.floorColor} 
-            roughness={config.environment.floorRoughness}
-            metalness={0.1}
-          />
-        </mesh>
-        
-        <Grid position={[0,-1.59,0]} args={[10.5, 10.5]} cellColor="#666" sectionColor="#888" fadeDistance={10} sectionThickness={1} cellThickness={0.5} infiniteGrid />
+        <Grid position={[0, FLOOR_Y + 0.01, 0]} args={[10.5, 10.5]} cellColor="#666" sectionColor="#888" fadeDistance={10} sectionThickness={1} cellThickness={0.5} infiniteGrid />
       </Canvas>
+
+      {viewProjection === 'orthographic' && (
+        <button
+          onClick={() => {
+            const viewpoint = getViewpoint();
+            if (viewpoint) setViewpoint({ ...viewpoint, projection: 'perspective' });
+          }}
+          className="absolute top-3 left-3 z-20 px-2 py-1 rounded bg-zinc-900/80 border border-zinc-700 text-[10px] text-zinc-300 hover:text-white"
+          title="Back to a perspective view"
+        >
+          Orthographic · Switch to Perspective
+        </button>
+      )}
+
+      {marquee && (
+        <div
+          className="absolute z-20 border border-indigo-400 bg-indigo-500/10 pointer-events-none"
+          style={{
+            left: Math.min(marquee.x0, marquee.x1),
+            top: Math.min(marquee.y0, marquee.y1),
+            width: Math.abs(marquee.x1 - marquee.x0),
+            height: Math.abs(marquee.y1 - marquee.y0)
+          }}
+        />
+      )}
     </div>
   );
 });
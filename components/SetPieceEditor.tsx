@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import { SetPiece, SetPieceShape, SetPieceSurface } from '../types';
+import { SET_PIECE_SHAPE_LABELS, SET_PIECE_SURFACES, createSetPiece, stackSetPiece, isRoundSetPiece } from '../services/setPieceService';
+
+interface SetPieceEditorProps {
+  setPieces: SetPiece[];
+  onChange: (setPieces: SetPiece[]) => void;
+}
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, step = 0.1, min, onChange }) => (
+  <div>
+    <span className="text-[10px] text-zinc-500 block mb-1">{label}</span>
+    <input
+      type="number"
+      step={step}
+      min={min}
+      value={Math.round(value * 1000) / 1000}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed) && (min == null || parsed >= min)) onChange(parsed);
+      }}
+      className="w-full min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+    />
+  </div>
+);
+
+// Add, stack and size the platforms, plinths and steps of the set
+export const SetPieceEditor: React.FC<SetPieceEditorProps> = ({ setPieces, onChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newShape, setNewShape] = useState<SetPieceShape>('cylinder');
+
+  const updatePiece = (id: string, updates: Partial<SetPiece>) => {
+    onChange(setPieces.map(piece => piece.id === id ? { ...piece, ...updates } : piece));
+  };
+
+  const addPiece = (piece: SetPiece) => {
+    onChange([...setPieces, piece]);
+    setExpandedId(piece.id);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {setPieces.map(piece => {
+        const isExpanded = expandedId === piece.id;
+        const isRound = isRoundSetPiece(piece.shape);
+        return (
+          <div key={piece.id} className="bg-zinc-900/60 rounded border border-zinc-700/50">
+            <div className="flex items-center gap-1.5 px-2 py-1.5">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : piece.id)}
+                className="text-zinc-500 hover:text-white"
+              >
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </button>
+              <input
+                type="color"
+                value={piece.color}
+                onChange={(e) => updatePiece(piece.id, { color: e.target.value })}
+                className="w-4 h-4 rounded cursor-pointer bg-transparent border-none shrink-0"
+              />
+              <input
+                value={piece.name}
+                onChange={(e) => updatePiece(piece.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-xs text-zinc-200 focus:outline-none"
+              />
+              <button
+                onClick={() => addPiece(stackSetPiece(piece))}
+                className="text-zinc-500 hover:text-indigo-400"
+                title="Stack a plinth on top"
+              >
+                <Layers className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onChange(setPieces.filter(p => p.id !== piece.id))}
+                className="text-zinc-500 hover:text-red-400"
+                title="Remove set piece"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="px-2 pb-2 space-y-2 border-t border-zinc-700/50 pt-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={piece.shape}
+                    onChange={(e) => updatePiece(piece.id, { shape: e.target.value as SetPieceShape })}
+                    className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+                  >
+                    {(Object.keys(SET_PIECE_SHAPE_LABELS) as SetPieceShape[]).map(shape => (
+                      <option key={shape} value={shape}>{SET_PIECE_SHAPE_LABELS[shape]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={piece.surface}
+                    onChange={(e) => updatePiece(piece.id, { surface: e.target.value as SetPieceSurface })}
+                    className="bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 capitalize"
+                  >
+                    {SET_PIECE_SURFACES.map(surface => (
+                      <option key={surface} value={surface}>{surface}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                  <NumberField label={isRound ? 'Diameter' : 'Width'} value={piece.width} min={0.1} onChange={(width) => updatePiece(piece.id, { width })} />
+                  {!isRound && <NumberField label="Depth" value={piece.depth} min={0.1} onChange={(depth) => updatePiece(piece.id, { depth })} />}
+                  <NumberField label="Height" value={piece.height} min={0.05} onChange={(height) => updatePiece(piece.id, { height })} />
+                  {piece.shape === 'steps' && (
+                    <NumberField label="Steps" value={piece.steps ?? 3} step={1} min={1} onChange={(steps) => updatePiece(piece.id, { steps: Math.round(steps) })} />
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                  {(['X', 'Base', 'Z'] as const).map((label, axis) => (
+                    <NumberField
+                      key={label}
+                      label={label}
+                      value={piece.position[axis]}
+                      onChange={(value) => {
+                        const position: [number, number, number] = [...piece.position];
+                        position[axis] = value;
+                        updatePiece(piece.id, { position });
+                      }}
+                    />
+                  ))}
+                </div>
+                <NumberField
+                  label="Rotation (°)"
+                  value={piece.rotation * 180 / Math.PI}
+                  step={15}
+                  onChange={(degrees) => updatePiece(piece.id, { rotation: degrees * Math.PI / 180 })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-1.5 pt-1">
+        <select
+          value={newShape}
+          onChange={(e) => setNewShape(e.target.value as SetPieceShape)}
+          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+        >
+          {(Object.keys(SET_PIECE_SHAPE_LABELS) as SetPieceShape[]).map(shape => (
+            <option key={shape} value={shape}>{SET_PIECE_SHAPE_LABELS[shape]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => addPiece(createSetPiece(newShape, { name: `${SET_PIECE_SHAPE_LABELS[newShape]} ${setPieces.length + 1}` }))}
+          className="flex items-center gap-1 px-2 py-1 bg-zinc-700 hover:bg-zinc-600 rounded text-xs text-zinc-200"
+        >
+          <Plus className="w-3 h-3" /> Add Piece
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SetPieceEditor;
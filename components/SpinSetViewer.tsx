@@ -0,0 +1,71 @@
+import React, { useRef, useState } from 'react';
+import { Download, RotateCw } from 'lucide-react';
+import { GeneratedImage } from '../types';
+
+interface SpinSetViewerProps {
+  frames: GeneratedImage[]; // In spin order
+}
+
+// Pixels of horizontal drag per frame step
+const DRAG_STEP = 8;
+
+// Gallery card for a 360° spin set: drag across the image or use the slider to turn the product
+export const SpinSetViewer: React.FC<SpinSetViewerProps> = ({ frames }) => {
+  const [frameIndex, setFrameIndex] = useState(0);
+  const dragRef = useRef<{ x: number; index: number } | null>(null);
+  const count = frames[0]?.spinSet?.count ?? frames.length;
+  const current = frames[Math.min(frameIndex, frames.length - 1)];
+
+  if (!current) return null;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const steps = Math.round((e.clientX - dragRef.current.x) / DRAG_STEP);
+    setFrameIndex(((dragRef.current.index - steps) % frames.length + frames.length) % frames.length);
+  };
+
+  return (
+    <div className="group relative rounded-lg overflow-hidden border border-zinc-800 bg-zinc-950">
+      <img
+        src={current.url}
+        alt={`Spin frame ${frameIndex + 1}`}
+        draggable={false}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          dragRef.current = { x: e.clientX, index: frameIndex };
+        }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        className="w-full h-auto object-cover cursor-ew-resize select-none"
+      />
+      <div className="absolute top-2 left-2 flex items-center gap-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-white/80">
+        <RotateCw className="w-3 h-3" />
+        {frameIndex + 1} / {frames.length}{frames.length < count ? ` of ${count}` : ''}
+      </div>
+      <a
+        href={current.url}
+        download={`fibo-studio-${current.spinSet?.id ?? current.id}-${String(frameIndex + 1).padStart(2, '0')}.png`}
+        className="absolute top-2 right-2 p-1.5 bg-white text-black rounded-full hover:bg-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        <Download className="w-3 h-3" />
+      </a>
+      <div className="p-2 border-t border-zinc-900 space-y-1.5">
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={frameIndex}
+          onChange={(e) => setFrameIndex(parseInt(e.target.value))}
+          className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+        <p className="text-[10px] text-zinc-500 truncate">
+          {new Date(current.timestamp).toLocaleTimeString()} · {count}-frame spin set
+          {current.cameraName && <span className="text-red-400/80"> · {current.cameraName}</span>}
+        </p>
+        <p className="text-[10px] text-zinc-400 truncate">{current.promptUsed}</p>
+      </div>
+    </div>
+  );
+};
+
+export default SpinSetViewer;
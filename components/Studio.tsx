@@ -1,14 +1,38 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Project, StudioConfig, StudioObject, GeneratedImage, StudioLighting, StudioEnvironment, ConsistencySettings, StudioCamera } from '../types';
-import { Scene3D, Scene3DRef } from './Scene3D';
-import { CameraPreview } from './CameraPreview';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Project, StudioConfig, StudioObject, ObjectPart, PartShape, PhysicalMaterialProps, GeneratedImage, StudioLighting, StudioLight, StudioEnvironment, ConsistencySettings, StudioCamera, NamedStudioCamera, SetPiece } from '../types';
+import { Scene3D, Scene3DRef, TransformSnap } from './Scene3D';
+import { CameraPreview, CameraPreviewRef } from './CameraPreview';
+import { LensEditor } from './LensEditor';
+import { OutputFormatEditor } from './OutputFormatEditor';
+import { SpinSetViewer } from './SpinSetViewer';
+import { AnimationTimeline, ClipExportSettings } from './AnimationTimeline';
 import { translatePromptToStudioConfig, generateStudioImage } from '../services/geminiService';
 import { BatchGenerationDialog } from './BatchGenerationDialog';
 import { MoveObjectDialog } from './MoveObjectDialog';
 import { ProductionSettingsDialog } from './ProductionSettingsDialog';
-import { ArrowLeft, Send, Sparkles, Box, Camera, Download, RefreshCw, LayoutTemplate, Wand2, Undo2, Redo2, Move, RotateCw, Maximize, MousePointer2, ArrowDownToLine, RefreshCcw, Sun, Palette, Trash2, Navigation, Settings2, Video } from 'lucide-react';
+import { ArrowLeft, Send, Sparkles, Box, Camera, Download, RefreshCw, LayoutTemplate, Wand2, Undo2, Redo2, Move, RotateCw, Maximize, MousePointer2, ArrowDownToLine, RefreshCcw, Sun, Palette, Trash2, Navigation, Settings2, Video, Lightbulb, Upload, Package, FileBox, Folder, Group, Ungroup, GitBranch, Shapes, Copy, Boxes, Magnet, Crosshair, Eye, ChevronDown, AlignHorizontalJustifyStart, AlignHorizontalJustifyCenter, AlignHorizontalJustifyEnd, AlignHorizontalSpaceBetween, AlignVerticalSpaceBetween, Anvil, Plus, Frame, Clapperboard, Scan, Fullscreen } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { DEFAULT_STUDIO_CONFIG, DEFAULT_STUDIO_CAMERA } from '../constants';
+import { DEFAULT_STUDIO_CONFIG } from '../constants';
+import { readFileAsDataUrl, loadModelBounds, MODEL_FILE_ACCEPT } from '../services/modelService';
+import { exportStudioScene, downloadBlob, SceneExportFormat } from '../services/exportService';
+import { PART_SHAPE_DEFAULTS } from './PartGeometry';
+import { TextureMapsEditor } from './TextureMapsEditor';
+import { PhysicalMaterialEditor } from './PhysicalMaterialEditor';
+import { LightRigEditor } from './LightRigEditor';
+import { HdriEditor } from './HdriEditor';
+import { SetPieceEditor } from './SetPieceEditor';
+import { CycloramaEditor } from './CycloramaEditor';
+import { createThreePointRig, migrateLighting } from '../services/lightingService';
+import { dropToSurface, alignObjects, distributeObjects, AlignMode, LayoutAxis } from '../services/layoutService';
+import { settleObjects } from '../services/physicsService';
+import { migrateStage, followStageChange } from '../services/setPieceService';
+import { getOutputFormat, getOutputAspect, DEFAULT_OUTPUT_FORMAT } from '../services/outputFormatService';
+import { TurntableSettings, getTurntableCamera, getProductTurn, turnObjects, getCameraElevation } from '../services/turntableService';
+import { DEFAULT_ANIMATION, createKeyframe, setKeyframe, sampleAnimation, applyAnimationPose } from '../services/animationService';
+import { getVideoSize } from '../services/videoExportService';
+import { FramingSettings, DEFAULT_FRAMING, FRAME_FILL_PRESETS, frameCamera, getSubjectBounds } from '../services/framingService';
+import { createStudioCamera, getActiveCamera, migrateCameras, buildCameraContext, applyLensUpdate, getFocusDistanceTo, isOrthographic } from '../services/cameraService';
+import { flattenObjectTree, groupObjects, ungroupObject, reparentObject, removeObjectTree, duplicateObjectTrees, getDescendantIds, getChildObjects, getRootObjects } from '../services/sceneGraph';
 
 interface StudioProps {
   project: Project;
@@ -21,29 +45,51 @@ interface StudioHistoryState {
     objects: StudioObject[];
 }
 
-const MOOD_PRESETS: Record<string, Partial<StudioConfig>> = {
+// Presets only recolor the backdrop; set pieces, HDRI and cyclorama stay as the user set them
+const MOOD_PRESETS: Record<string, Pick<StudioConfig, 'moodDescription' | 'lighting'> & { environment: Pick<StudioEnvironment, 'backgroundColor' | 'floorColor'> }> = {
     'Clean': {
         moodDescription: 'Clean white minimalist studio',
-        environment: { ...DEFAULT_STUDIO_CONFIG.environment, backgroundColor: '#f4f4f5', floorColor: '#f4f4f5' },
-        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, keyLightColor: '#ffffff', fillLightColor: '#e4e4e7', ambientIntensity: 0.6 }
+        environment: { backgroundColor: '#f4f4f5', floorColor: '#f4f4f5' },
+        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, lights: createThreePointRig({ key: '#ffffff', fill: '#e4e4e7' }), ambientIntensity: 0.6 }
     },
     'Dark': {
         moodDescription: 'Dramatic dark luxury studio',
-        environment: { ...DEFAULT_STUDIO_CONFIG.environment, backgroundColor: '#09090b', floorColor: '#09090b' },
-        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, keyLightColor: '#ffffff', fillLightColor: '#27272a', ambientIntensity: 0.2 }
+        environment: { backgroundColor: '#09090b', floorColor: '#09090b' },
+        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, lights: createThreePointRig({ key: '#ffffff', fill: '#27272a' }), ambientIntensity: 0.2 }
     },
     'Warm': {
         moodDescription: 'Warm golden hour sunlight',
-        environment: { ...DEFAULT_STUDIO_CONFIG.environment, backgroundColor: '#2a221e', floorColor: '#2a221e' },
-        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, keyLightColor: '#ffba75', fillLightColor: '#5c3a2e', ambientIntensity: 0.4 }
+        environment: { backgroundColor: '#2a221e', floorColor: '#2a221e' },
+        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, lights: createThreePointRig({ key: '#ffba75', fill: '#5c3a2e' }), ambientIntensity: 0.4 }
     },
     'Cool': {
         moodDescription: 'Futuristic cool blue neon',
-        environment: { ...DEFAULT_STUDIO_CONFIG.environment, backgroundColor: '#0f172a', floorColor: '#0f172a' },
-        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, keyLightColor: '#60a5fa', fillLightColor: '#1e3a8a', ambientIntensity: 0.3 }
+        environment: { backgroundColor: '#0f172a', floorColor: '#0f172a' },
+        lighting: { ...DEFAULT_STUDIO_CONFIG.lighting, lights: createThreePointRig({ key: '#60a5fa', fill: '#1e3a8a' }), ambientIntensity: 0.3 }
     }
 };
 
+type PartShapeParam = 'radius' | 'length' | 'cornerRadius' | 'radiusTop' | 'radiusBottom' | 'arc' | 'tube';
+
+// Editable parameters of parametric part shapes (lathe profiles come from the AI director)
+const PART_SHAPE_PARAMS: Partial<Record<PartShape, { key: PartShapeParam; label: string; min: number; max: number; step: number }[]>> = {
+    capsule: [
+        { key: 'radius', label: 'Cap Radius', min: 0.01, max: 0.5, step: 0.01 },
+        { key: 'length', label: 'Length', min: 0, max: 2, step: 0.01 }
+    ],
+    rounded_box: [
+        { key: 'cornerRadius', label: 'Corner Radius', min: 0, max: 0.5, step: 0.01 }
+    ],
+    tapered_cylinder: [
+        { key: 'radiusTop', label: 'Top Radius', min: 0, max: 1, step: 0.01 },
+        { key: 'radiusBottom', label: 'Bottom Radius', min: 0, max: 1, step: 0.01 }
+    ],
+    arc: [
+        { key: 'arc', label: 'Arc (rad)', min: 0.1, max: Math.PI * 2, step: 0.05 },
+        { key: 'tube', label: 'Tube Radius', min: 0.01, max: 0.5, step: 0.01 }
+    ]
+};
+
 const DEFAULT_CONSISTENCY: ConsistencySettings = {
     lockCamera: true,
     lockLighting: true,
@@ -81,22 +127,32 @@ const useUndoRedo = <T,>(initialState: T) => {
   };
 
 export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack }) => {
-  const { state: historyState, pushState, undo, redo, canUndo, canRedo } = useUndoRedo<StudioHistoryState>({
-      config: project.config,
-      objects: project.objects
-  });
+  // Older projects store a fixed key/fill/rim rig instead of a light list, a single platform instead of set pieces
+  // and a single unnamed camera
+  const { state: historyState, pushState, undo, redo, canUndo, canRedo } = useUndoRedo<StudioHistoryState>(
+      migrateStage(migrateCameras({ ...project.config, lighting: migrateLighting(project.config.lighting) }), project.objects)
+  );
 
   const { config, objects } = historyState;
 
   const [activeObjectId, setActiveObjectId] = useState<string>(project.objects[0]?.id || '');
+  // Objects selected together with the active one (shift/ctrl click, marquee)
+  const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>(activeObjectId ? [activeObjectId] : []);
   const [images, setImages] = useState<GeneratedImage[]>(project.images);
   const [consistencySettings, setConsistencySettings] = useState<ConsistencySettings>(project.consistencySettings || DEFAULT_CONSISTENCY);
   
-  // Studio Camera state
-  const [studioCamera, setStudioCamera] = useState<StudioCamera>(
-    config.studioCamera || DEFAULT_STUDIO_CAMERA
-  );
+  // Studio Camera state: the active camera of the project, plus its in-progress viewport drag
+  const cameras = config.cameras || [];
+  const [activeCameraId, setActiveCameraId] = useState<string>(cameras[0]?.id || '');
+  const activeCamera = getActiveCamera(cameras, activeCameraId);
+  const [cameraDraft, setCameraDraft] = useState<Partial<StudioCamera> | null>(null);
+  const studioCamera: StudioCamera = cameraDraft ? { ...activeCamera, ...cameraDraft } : activeCamera;
+  const outputFormat = getOutputFormat(config, activeCamera);
   const [isStudioCameraSelected, setIsStudioCameraSelected] = useState(false);
+  // While set, clicking an object focuses the studio camera on it instead of selecting it
+  const [isFocusPicking, setIsFocusPicking] = useState(false);
+  const [framing, setFraming] = useState<FramingSettings>(DEFAULT_FRAMING);
+  const [activeLightId, setActiveLightId] = useState<string | null>(null);
   const [cameraPreviewImage, setCameraPreviewImage] = useState<string>('');
   
   const [prompt, setPrompt] = useState('');
@@ -108,18 +164,158 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
   const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
   const [isMoveDialogOpen, setIsMoveDialogOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPreviewingAnimation, setIsPreviewingAnimation] = useState(false);
+  const [clipExportProgress, setClipExportProgress] = useState<number | null>(null);
   
   const [transformMode, setTransformMode] = useState<'translate' | 'rotate' | 'scale' | undefined>(undefined);
+  const [isPartEditMode, setIsPartEditMode] = useState(false);
+  const [activePartIndex, setActivePartIndex] = useState<number | null>(null);
+  const [snap, setSnap] = useState<TransformSnap>({ enabled: false, translate: 0.25, rotate: 15, scale: 0.1 });
+  const [isSnapMenuOpen, setIsSnapMenuOpen] = useState(false);
 
   const sceneRef = useRef<Scene3DRef>(null);
+  const cameraPreviewRef = useRef<CameraPreviewRef>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
 
   const activeObject = objects.find(o => o.id === activeObjectId) || objects[0];
+  const canEditParts = activeObject?.type === 'compound' && !!activeObject.parts?.length;
+  const activePart: ObjectPart | undefined = isPartEditMode && canEditParts && activePartIndex != null
+    ? activeObject.parts![activePartIndex]
+    : undefined;
+  const materialTarget = activePart || activeObject;
+  const selectedIds = selectedObjectIds.filter(id => objects.some(o => o.id === id));
+  const isMultiSelect = selectedIds.length > 1;
+
+  // Part selection belongs to a single object
+  useEffect(() => {
+    setActivePartIndex(null);
+  }, [activeObjectId]);
+
+  // Selecting a single object elsewhere (new object, group, delete) resets the multi-selection
+  useEffect(() => {
+    setSelectedObjectIds(prev => prev.includes(activeObjectId) ? prev : (activeObjectId ? [activeObjectId] : []));
+  }, [activeObjectId]);
+
+  const handleSelectObject = (id: string, additive = false) => {
+    if (isFocusPicking) {
+      handleFocusOnObject(id);
+      return;
+    }
+    setIsStudioCameraSelected(false);
+    setActiveLightId(null);
+    if (!additive) {
+        setSelectedObjectIds([id]);
+        setActiveObjectId(id);
+        return;
+    }
+    if (selectedIds.includes(id)) {
+        const remaining = selectedIds.filter(other => other !== id);
+        setSelectedObjectIds(remaining);
+        setActiveObjectId(remaining[remaining.length - 1] || '');
+    } else {
+        setSelectedObjectIds([...selectedIds, id]);
+        setActiveObjectId(id);
+    }
+  };
+
+  const handleMarqueeSelect = (ids: string[], additive: boolean) => {
+    const next = additive ? Array.from(new Set([...selectedIds, ...ids])) : ids;
+    if (next.length === 0) return;
+    setIsStudioCameraSelected(false);
+    setActiveLightId(null);
+    setSelectedObjectIds(next);
+    setActiveObjectId(next.includes(activeObjectId) ? activeObjectId : next[next.length - 1]);
+  };
   
-  // Update studio camera in config when it changes
-  const updateStudioCamera = (updates: Partial<StudioCamera>) => {
-    const newCamera = { ...studioCamera, ...updates };
-    setStudioCamera(newCamera);
-    updateConfig({ ...config, studioCamera: newCamera });
+  const updateCameras = (newCameras: NamedStudioCamera[]) => {
+    updateConfig({ ...config, cameras: newCameras });
+  };
+
+  // Update the active studio camera in config when it changes; lens and fov stay in step
+  const updateStudioCamera = (updates: Partial<NamedStudioCamera>) => {
+    setCameraDraft(null);
+    const lensUpdates = applyLensUpdate(studioCamera, updates);
+    updateCameras(cameras.map(c => c.id === activeCamera.id ? { ...c, ...studioCamera, ...lensUpdates } : c));
+  };
+
+  const handleFocusOnObject = (id: string) => {
+    setIsFocusPicking(false);
+    const box = sceneRef.current?.getObjectBounds([id])[id];
+    if (!box || box.isEmpty()) return;
+    const { min, max } = box;
+    const center: [number, number, number] = [(min.x + max.x) / 2, (min.y + max.y) / 2, (min.z + max.z) / 2];
+    updateStudioCamera({ focusDistance: getFocusDistanceTo(studioCamera, center), depthOfField: true });
+  };
+
+  // Whole products, as rendered; child parts are inside their root's bounds
+  const getProductBounds = () => getSubjectBounds(sceneRef.current?.getObjectBounds(getRootObjects(objects).map(o => o.id)) ?? {});
+
+  const handleFrameSubject = (ids: string[] | 'all') => {
+    const bounds = ids === 'all' ? getProductBounds() : getSubjectBounds(sceneRef.current?.getObjectBounds(ids) ?? {});
+    const updates = frameCamera(studioCamera, bounds, getOutputAspect(outputFormat), framing);
+    if (updates) updateStudioCamera(updates);
+  };
+
+  // Focus picking belongs to the camera panel
+  useEffect(() => {
+    if (!isStudioCameraSelected) setIsFocusPicking(false);
+  }, [isStudioCameraSelected]);
+
+  // Viewport drags update the preview live and land in history once, on release
+  const handleStudioCameraChange = (updates: Partial<StudioCamera>, commit: boolean) => {
+    if (commit) updateStudioCamera(updates);
+    else setCameraDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const selectStudioCamera = (id: string = activeCamera.id) => {
+    setActiveCameraId(id);
+    setCameraDraft(null);
+    setIsStudioCameraSelected(true);
+    setActiveObjectId('');
+    setActiveLightId(null);
+  };
+
+  // New cameras start from the current viewport so the user can frame first, then save
+  const handleAddCamera = () => {
+    const viewpoint = sceneRef.current?.getViewpoint();
+    const camera = createStudioCamera({ ...(viewpoint || studioCamera), name: `Camera ${cameras.length + 1}` });
+    updateCameras([...cameras, camera]);
+    selectStudioCamera(camera.id);
+  };
+
+  const handleDuplicateCamera = () => {
+    const camera = createStudioCamera({ ...studioCamera, name: `${activeCamera.name} Copy` });
+    updateCameras([...cameras, camera]);
+    selectStudioCamera(camera.id);
+  };
+
+  // A project always keeps at least one camera
+  const handleDeleteCamera = () => {
+    if (cameras.length <= 1) return;
+    const remaining = cameras.filter(c => c.id !== activeCamera.id);
+    updateCameras(remaining);
+    setActiveCameraId(remaining[0].id);
+    setCameraDraft(null);
+  };
+
+  // The camera keeps its own projection; only the matching lens setting follows the viewport
+  const handleAlignCameraToViewport = () => {
+    const viewpoint = sceneRef.current?.getViewpoint();
+    if (!viewpoint) return;
+    const { position, lookAt, fov, projection, zoom } = viewpoint;
+    if (isOrthographic(studioCamera)) {
+      updateStudioCamera({ position, lookAt, ...(projection === 'orthographic' && { zoom }) });
+    } else {
+      updateStudioCamera({ position, lookAt, fov });
+    }
+  };
+
+  const handleLookThroughCamera = () => {
+    sceneRef.current?.setViewpoint(studioCamera);
   };
 
   useEffect(() => {
@@ -142,18 +338,47 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
       updateConfig({ ...config, lighting: { ...config.lighting, ...updates } });
   };
 
+  const handleLightChange = (id: string, updates: Partial<StudioLight>) => {
+      updateLighting({ lights: config.lighting.lights.map(light => light.id === id ? { ...light, ...updates } : light) });
+  };
+
+  const selectLight = (id: string | null) => {
+      setActiveLightId(id);
+      if (id) {
+          setIsStudioCameraSelected(false);
+          setActiveObjectId('');
+      }
+  };
+
   const updateEnvironment = (updates: Partial<StudioEnvironment>) => {
       updateConfig({ ...config, environment: { ...config.environment, ...updates } });
   };
 
+  // Objects standing on the stage ride along when set pieces move, resize or disappear
+  const followStage = (newConfig: StudioConfig, currentObjects: StudioObject[]): StudioObject[] => {
+      const rootIds = getRootObjects(currentObjects).map(o => o.id);
+      const updates = followStageChange(
+          currentObjects,
+          sceneRef.current?.getObjectBounds(rootIds) ?? {},
+          config.environment.setPieces ?? [],
+          newConfig.environment.setPieces ?? []
+      );
+      return currentObjects.map(obj => updates[obj.id] ? { ...obj, ...updates[obj.id] } : obj);
+  };
+
+  const handleSetPiecesChange = (setPieces: SetPiece[]) => {
+      const newConfig = { ...config, environment: { ...config.environment, setPieces } };
+      pushState({ config: newConfig, objects: followStage(newConfig, objects) });
+  };
+
   const handleApplyPreset = (name: string) => {
       const preset = MOOD_PRESETS[name];
       if (preset) {
           updateConfig({
               ...config,
-              moodDescription: preset.moodDescription || config.moodDescription,
-              environment: { ...config.environment, ...(preset.environment || {}) },
-              lighting: { ...config.lighting, ...(preset.lighting || {}) }
+              moodDescription: preset.moodDescription,
+              environment: { ...config.environment, ...preset.environment },
+              lighting: { ...config.lighting, ...preset.lighting }
           });
       }
   };
@@ -165,8 +390,56 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
       pushState({ config, objects: newObjects });
   };
 
-  const handleSnapToGround = () => {
-      handleTransformChange(activeObjectId, { position: [activeObject.position[0], 0, activeObject.position[2]] });
+  // Applies per-object updates as a single undo step
+  const handleObjectsChange = (updates: Record<string, Partial<StudioObject>>) => {
+      const newObjects = objects.map(obj => updates[obj.id] ? { ...obj, ...updates[obj.id] } : obj);
+      pushState({ config, objects: newObjects });
+  };
+
+  const handlePartChange = (id: string, index: number, updates: Partial<ObjectPart>) => {
+      const target = objects.find(o => o.id === id);
+      if (!target?.parts?.[index]) return;
+      const newParts = target.parts.map((part, i) => i === index ? { ...part, ...updates } : part);
+      handleTransformChange(id, { parts: newParts });
+  };
+
+  // Material inspector edits the selected part in part edit mode, otherwise the whole object
+  const updateMaterial = (updates: Partial<Pick<StudioObject, 'color' | 'roughness' | 'metalness' | 'maps'> & PhysicalMaterialProps>) => {
+      if (activePart && activePartIndex != null) {
+          handlePartChange(activeObjectId, activePartIndex, updates);
+      } else if (isMultiSelect) {
+          handleObjectsChange(Object.fromEntries(selectedIds.map(id => [id, updates])));
+      } else {
+          handleTransformChange(activeObjectId, updates);
+      }
+  };
+
+  // Layout commands measure the objects as rendered, so imported models and children count too
+  const getLayoutBounds = (ids: string[]) => sceneRef.current?.getObjectBounds(ids) ?? {};
+
+  const handleDropToSurface = () => {
+      const ids = isMultiSelect ? selectedIds : [activeObjectId];
+      const updates = dropToSurface(objects, ids, getLayoutBounds(ids), config.environment);
+      if (Object.keys(updates).length > 0) handleObjectsChange(updates);
+  };
+
+  // Let the selection fall and come to rest on whatever is below it
+  const handleSettle = () => {
+      const nodes = sceneRef.current?.getObjectNodes();
+      if (!nodes) return;
+      const ids = isMultiSelect ? selectedIds : [activeObjectId];
+      const updates = settleObjects(objects, ids, nodes, config.environment);
+      if (Object.keys(updates).length > 0) handleObjectsChange(updates);
+  };
+
+  const handleAlign = (axis: LayoutAxis, mode: AlignMode) => {
+      const updates = alignObjects(objects, selectedIds, getLayoutBounds(selectedIds), axis, mode);
+      if (Object.keys(updates).length > 0) handleObjectsChange(updates);
+  };
+
+  const handleDistribute = (axis: LayoutAxis) => {
+      const updates = distributeObjects(objects, selectedIds, getLayoutBounds(selectedIds), axis);
+      if (Object.keys(updates).length > 0) handleObjectsChange(updates);
   };
 
   const handleResetRotation = () => {
@@ -174,15 +447,48 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
   };
 
   const handleDeleteObject = () => {
-    if (objects.length <= 1) {
+    // Deleting an object also deletes everything parented under it
+    const ids = isMultiSelect ? selectedIds : [activeObjectId];
+    const newObjects = ids.reduce((remaining, id) => removeObjectTree(remaining, id), objects);
+    if (newObjects.length === 0) {
         alert("Cannot delete the last object.");
         return;
     }
-    const newObjects = objects.filter(o => o.id !== activeObjectId);
     pushState({ config, objects: newObjects });
     setActiveObjectId(newObjects[0].id);
   };
 
+  const handleDuplicateObjects = () => {
+    const ids = isMultiSelect ? selectedIds : [activeObjectId];
+    const result = duplicateObjectTrees(objects, ids);
+    if (result.newIds.length === 0) return;
+    pushState({ config, objects: result.objects });
+    setSelectedObjectIds(result.newIds);
+    setActiveObjectId(result.newIds[result.newIds.length - 1]);
+  };
+
+  const handleGroupObject = () => {
+    if (!activeObject) return;
+    const ids = isMultiSelect ? selectedIds : [activeObject.id];
+    const result = groupObjects(objects, ids, isMultiSelect ? 'Group' : `${activeObject.name} Group`);
+    if (!result) return;
+    pushState({ config, objects: result.objects });
+    setActiveObjectId(result.groupId);
+  };
+
+  const handleUngroupObject = () => {
+    if (!activeObject || getChildObjects(objects, activeObject.id).length === 0) return;
+    const newObjects = ungroupObject(objects, activeObject.id);
+    pushState({ config, objects: newObjects });
+    if (!newObjects.some(o => o.id === activeObjectId)) {
+        setActiveObjectId(getChildObjects(objects, activeObject.id)[0].id);
+    }
+  };
+
+  const handleSetParent = (parentId: string) => {
+    pushState({ config, objects: reparentObject(objects, activeObjectId, parentId || undefined) });
+  };
+
   const handleApplyPrompt = async () => {
     if (!prompt.trim()) return;
     setIsProcessingPrompt(true);
@@ -192,7 +498,7 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
       const result = await translatePromptToStudioConfig(config, activeObject, prompt);
       
       let newConfig = result.config;
-      let newObjects = [...objects];
+      let newObjects = followStage(newConfig, objects);
 
       if (result.objectAction) {
         const { type, properties } = result.objectAction;
@@ -201,7 +507,7 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
         const newProperties: Partial<StudioObject> = { ...properties };
 
         if (type === 'UPDATE') {
-          newObjects = objects.map(obj => 
+          newObjects = newObjects.map(obj => 
             obj.id === activeObjectId 
               ? { ...obj, ...newProperties }
               : obj
@@ -220,7 +526,7 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
             roughness: newProperties.roughness ?? 0.5,
             metalness: newProperties.metalness ?? 0.5
           };
-          newObjects = [...objects, newObj];
+          newObjects = [...newObjects, newObj];
           setActiveObjectId(newObj.id);
         }
       }
@@ -236,62 +542,116 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
     }
   };
 
-  const handleBatchGenerate = async (prompts: string[]) => {
+  const handleBatchGenerate = async (prompts: string[], cameraIds: string[] = [activeCamera.id], autoFraming?: FramingSettings) => {
     setIsGeneratingImage(true);
     
     try {
-      // Use the studio camera preview image for generation (exact camera view)
-      const snapshot = cameraPreviewImage || (sceneRef.current?.captureSnapshot() || '');
-      
-      // Build camera context from studio camera
-      // Note: Negate X to match FIBO's coordinate system (fixes mirror issue)
-      const camX = studioCamera.position[0];
-      const camY = studioCamera.position[1];
-      const camZ = studioCamera.position[2];
-      const camDistance = Math.sqrt(camX ** 2 + camY ** 2 + camZ ** 2);
-      
-      const cameraContext = JSON.stringify({
-        horizontal: "studio camera view",
-        vertical: "studio camera view",
-        distance: camDistance,
-        // Negate X in atan2 to fix mirroring - FIBO expects opposite handedness
-        horizontalDeg: Math.round(Math.atan2(-camX, camZ) * 180 / Math.PI),
-        verticalDeg: Math.round(Math.acos(camY / camDistance) * 180 / Math.PI),
-        position: { 
-          x: camX, 
-          y: camY, 
-          z: camZ 
-        }
+      // Groups are pure transforms and never appear in the generated image
+      const renderableObjects = objects.filter(o => o.type !== 'group');
+      const shotCameras = cameras.filter(c => cameraIds.includes(c.id));
+      const productBounds = autoFraming ? getProductBounds() : null;
+
+      // Render each camera's exact view at its output size for generation, up front, before
+      // the scene can change. The live preview image is the fallback.
+      const shots = (shotCameras.length ? shotCameras : [activeCamera]).map(camera => {
+        const format = getOutputFormat(config, camera);
+        let view = camera.id === activeCamera.id ? { ...camera, ...studioCamera } : camera;
+        // Auto-framing fits the products to the same share of every shot
+        const framed = productBounds && autoFraming && frameCamera(view, productBounds, getOutputAspect(format), autoFraming);
+        if (framed) view = { ...view, ...applyLensUpdate(view, framed) };
+        return {
+          name: camera.name,
+          snapshot: cameraPreviewRef.current?.capture(view, format)
+            || cameraPreviewImage || (sceneRef.current?.captureSnapshot() || ''),
+          cameraContext: buildCameraContext(view, format)
+        };
       });
       
-      for (const variantPrompt of prompts) {
-        // Use prompt if it's different from object name, else undefined to signal "standard generation"
-        const isVariation = variantPrompt !== activeObject.name;
+      for (const { name: cameraName, snapshot, cameraContext } of shots) {
+        for (const variantPrompt of prompts) {
+          // Use prompt if it's different from object name, else undefined to signal "standard generation"
+          const isVariation = variantPrompt !== activeObject.name;
         
+          const imageUrl = await generateStudioImage(
+            config, 
+            renderableObjects, // Pass all objects to render full scene
+            snapshot, 
+            generationStyle,
+            cameraContext,
+            isVariation ? variantPrompt : undefined,
+            consistencySettings // Pass settings
+          );
+
+          const newImage: GeneratedImage = {
+            id: uuidv4(),
+            url: imageUrl,
+            promptUsed: isVariation ? `${variantPrompt} (${generationStyle})` : `${config.moodDescription} (${generationStyle})`,
+            timestamp: Date.now(),
+            objectName: isVariation ? variantPrompt : renderableObjects.map(o => o.name).join(', '),
+            cameraName
+          };
+        
+          // Add image to start of list
+          setImages(prev => [newImage, ...prev]);
+        }
+      }
+    } catch (e) {
+      console.error(e);
+      alert('Failed to generate images.');
+    } finally {
+      setIsGeneratingImage(false);
+    }
+  };
+
+  // 360° spin set from the active camera: every frame goes through the normal pipeline with one shared seed
+  const handleGenerateTurntable = async (settings: TurntableSettings) => {
+    setIsGeneratingImage(true);
+
+    try {
+      const view = { ...activeCamera, ...studioCamera };
+      const format = getOutputFormat(config, activeCamera);
+      const seed = Math.floor(Math.random() * 1000000);
+      const spinSetId = uuidv4();
+
+      // Render every frame up front, before the scene can change
+      const frames = Array.from({ length: settings.frames }, (_, index) => {
+        const camera = getTurntableCamera(view, index, settings);
+        const productTurn = getProductTurn(view, index, settings);
+        return {
+          snapshot: cameraPreviewRef.current?.capture(camera, format, productTurn) || '',
+          cameraContext: buildCameraContext(camera, format),
+          // Groups are pure transforms and never appear in the generated image
+          objects: (productTurn ? turnObjects(objects, productTurn) : objects).filter(o => o.type !== 'group')
+        };
+      });
+
+      for (const [index, frame] of frames.entries()) {
         const imageUrl = await generateStudioImage(
-          config, 
-          objects, // Pass all objects to render full scene
-          snapshot, 
+          config,
+          frame.objects,
+          frame.snapshot,
           generationStyle,
-          cameraContext,
-          isVariation ? variantPrompt : undefined,
-          consistencySettings // Pass settings
+          frame.cameraContext,
+          undefined,
+          consistencySettings,
+          seed
         );
 
         const newImage: GeneratedImage = {
           id: uuidv4(),
           url: imageUrl,
-          promptUsed: isVariation ? `${variantPrompt} (${generationStyle})` : `${config.moodDescription} (${generationStyle})`,
+          promptUsed: `${config.moodDescription} (${generationStyle})`,
           timestamp: Date.now(),
-          objectName: isVariation ? variantPrompt : objects.map(o => o.name).join(', ')
+          objectName: frame.objects.map(o => o.name).join(', '),
+          cameraName: activeCamera.name,
+          spinSet: { id: spinSetId, index, count: settings.frames, mode: settings.mode }
         };
-        
-        // Add image to start of list
+
         setImages(prev => [newImage, ...prev]);
       }
     } catch (e) {
       console.error(e);
-      alert('Failed to generate images.');
+      alert('Failed to generate spin set.');
     } finally {
       setIsGeneratingImage(false);
     }
@@ -315,6 +675,102 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
     setActiveObjectId(newObj.id);
   };
 
+  const handleExportScene = async (format: SceneExportFormat) => {
+    setIsExportMenuOpen(false);
+    const scene = sceneRef.current?.getScene();
+    if (!scene) return;
+
+    setIsExporting(true);
+    try {
+      await exportStudioScene(scene, studioCamera, format, project.name, getOutputAspect(outputFormat));
+    } catch (e) {
+      console.error(e);
+      alert(`Failed to export scene as .${format}.`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const animation = config.animation ?? DEFAULT_ANIMATION;
+  // The camera preview follows the timeline while scrubbing or playing, and the live scene again after any edit
+  const animationPose = isTimelineOpen && isPreviewingAnimation ? sampleAnimation(animation, playhead) : null;
+
+  useEffect(() => {
+    setIsPreviewingAnimation(false);
+  }, [config, objects, cameraDraft]);
+
+  const handlePlayheadChange = useCallback((time: number) => {
+    setPlayhead(time);
+    setIsPreviewingAnimation(true);
+  }, []);
+
+  const handleAddKeyframe = () => {
+    updateConfig({ ...config, animation: setKeyframe(animation, createKeyframe(playhead, studioCamera, objects)) });
+  };
+
+  const handleExportClip = async (settings: ClipExportSettings) => {
+    if (!cameraPreviewRef.current) return;
+
+    setClipExportProgress(0);
+    try {
+      const blob = await cameraPreviewRef.current.recordClip(
+        {
+          container: settings.container,
+          ...getVideoSize(settings.height, getOutputAspect(outputFormat)),
+          fps: settings.fps,
+          duration: animation.duration
+        },
+        (time) => sampleAnimation(animation, time),
+        setClipExportProgress
+      );
+      const safeName = project.name.trim().replace(/[^a-z0-9-_]+/gi, '_') || 'fibo-studio-clip';
+      downloadBlob(blob, `${safeName}.${settings.container}`);
+    } catch (e) {
+      console.error(e);
+      alert(`Failed to export clip as .${settings.container}.`);
+    } finally {
+      setClipExportProgress(null);
+    }
+  };
+
+  const handleImportModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsProcessingPrompt(true);
+    setProcessingStatus('Importing Model...');
+
+    try {
+      const meshUrl = await readFileAsDataUrl(file);
+      const meshBounds = await loadModelBounds(meshUrl);
+
+      const newObj: StudioObject = {
+        id: uuidv4(),
+        name: file.name.replace(/\.(glb|gltf)$/i, '') || `Model ${objects.length + 1}`,
+        type: 'mesh',
+        meshUrl,
+        meshFileName: file.name,
+        meshBounds,
+        color: '#ffffff',
+        position: [objects.length * 1.5, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        roughness: 0.5,
+        metalness: 0.5
+      };
+      pushState({ config, objects: [...objects, newObj] });
+      setActiveObjectId(newObj.id);
+      setIsStudioCameraSelected(false);
+    } catch (err) {
+      console.error(err);
+      alert('Failed to import model. Make sure it is a valid .glb or self-contained .gltf file.');
+    } finally {
+      setIsProcessingPrompt(false);
+      setProcessingStatus('');
+    }
+  };
+
   return (
     <div className="flex h-screen bg-zinc-950 text-zinc-200 overflow-hidden">
       {/* LEFT PANEL */}
@@ -329,43 +785,85 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
         <div className="p-4 flex-1 overflow-y-auto">
           <div className="flex items-center justify-between mb-3 text-sm text-zinc-500 font-medium tracking-wider uppercase">
             <span>Objects</span>
-            <button onClick={handleAddObject} className="text-indigo-400 hover:text-indigo-300">
-                <Sparkles className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-2">
+                <button onClick={handleGroupObject} className="text-indigo-400 hover:text-indigo-300" title="Group">
+                    <Group className="w-4 h-4" />
+                </button>
+                <button onClick={handleUngroupObject} className="text-indigo-400 hover:text-indigo-300" title="Ungroup">
+                    <Ungroup className="w-4 h-4" />
+                </button>
+                <button onClick={() => modelInputRef.current?.click()} className="text-indigo-400 hover:text-indigo-300" title="Import Model (glTF/GLB)">
+                    <Upload className="w-4 h-4" />
+                </button>
+                <button onClick={handleAddObject} className="text-indigo-400 hover:text-indigo-300" title="Add Object">
+                    <Sparkles className="w-4 h-4" />
+                </button>
+            </div>
+            <input
+              ref={modelInputRef}
+              type="file"
+              accept={MODEL_FILE_ACCEPT}
+              onChange={handleImportModel}
+              className="hidden"
+            />
           </div>
           <div className="space-y-2">
-            {/* Studio Camera - Cannot be deleted */}
+            {/* Studio Cameras - the last one cannot be deleted */}
+            {cameras.map(camera => (
+              <button
+                key={camera.id}
+                onClick={() => selectStudioCamera(camera.id)}
+                className={`w-full flex items-center gap-3 p-3 rounded-lg text-sm transition-all ${
+                  isStudioCameraSelected && camera.id === activeCamera.id
+                    ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' 
+                    : 'bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300'
+                }`}
+              >
+                <Video className="w-4 h-4" />
+                <div className="flex-1 text-left truncate">{camera.name}</div>
+                {camera.id === activeCamera.id && <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+              </button>
+            ))}
             <button
-              onClick={() => {
-                setIsStudioCameraSelected(true);
-                setActiveObjectId('');
-              }}
-              className={`w-full flex items-center gap-3 p-3 rounded-lg text-sm transition-all ${
-                isStudioCameraSelected
-                  ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' 
-                  : 'bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300'
-              }`}
+              onClick={handleAddCamera}
+              className="w-full flex items-center justify-center gap-2 p-2 rounded-lg text-xs text-zinc-500 hover:text-red-300 border border-dashed border-zinc-700 hover:border-red-800/60 transition-colors"
+              title="Add a camera at the current viewport"
             >
-              <Video className="w-4 h-4" />
-              <div className="flex-1 text-left truncate">Studio Camera</div>
-              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              <Plus className="w-3 h-3" /> Add Camera
             </button>
+
+            {/* Lights - selectable like the camera, moved with viewport gizmos */}
+            {config.lighting.lights.map(light => (
+              <button
+                key={light.id}
+                onClick={() => selectLight(light.id)}
+                className={`w-full flex items-center gap-3 p-3 rounded-lg text-sm transition-all ${
+                  light.id === activeLightId
+                    ? 'bg-amber-600 text-white shadow-lg shadow-amber-900/20' 
+                    : 'bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300'
+                }`}
+              >
+                <Lightbulb className="w-4 h-4" />
+                <div className="flex-1 text-left truncate">{light.name}</div>
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: light.color }} />
+              </button>
+            ))}
             
-            {/* Objects */}
-            {objects.map(obj => (
+            {/* Objects (indented by hierarchy depth) */}
+            {flattenObjectTree(objects).map(({ object: obj, depth }) => (
               <button
                 key={obj.id}
-                onClick={() => {
-                  setActiveObjectId(obj.id);
-                  setIsStudioCameraSelected(false);
-                }}
+                style={{ marginLeft: depth * 12, width: `calc(100% - ${depth * 12}px)` }}
+                onClick={(e) => handleSelectObject(obj.id, e.shiftKey || e.ctrlKey || e.metaKey)}
                 className={`w-full flex items-center gap-3 p-3 rounded-lg text-sm transition-all ${
                   obj.id === activeObjectId && !isStudioCameraSelected
                     ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-900/20' 
-                    : 'bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300'
+                    : selectedIds.includes(obj.id) && !isStudioCameraSelected
+                      ? 'bg-indigo-900/60 text-white'
+                      : 'bg-zinc-800/50 hover:bg-zinc-800 text-zinc-300'
                 }`}
               >
-                <Box className="w-4 h-4" />
+                {obj.type === 'group' ? <Folder className="w-4 h-4" /> : obj.type === 'mesh' ? <Package className="w-4 h-4" /> : <Box className="w-4 h-4" />}
                 <div className="flex-1 text-left truncate">{obj.name}</div>
                 <div className="w-2 h-2 rounded-full" style={{ backgroundColor: obj.color }} />
               </button>
@@ -427,13 +925,32 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                     >
                         <Maximize className="w-4 h-4" />
                     </button>
+                    <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+                    <button 
+                        onClick={() => {
+                            setIsPartEditMode(!isPartEditMode);
+                            setActivePartIndex(null);
+                        }}
+                        disabled={!canEditParts && !isPartEditMode}
+                        className={`p-1.5 rounded-md transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isPartEditMode ? 'bg-amber-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                        title="Edit Parts"
+                    >
+                        <Shapes className="w-4 h-4" />
+                    </button>
                     <div className="w-px h-4 bg-zinc-800 mx-1"></div>
                      <button 
-                        onClick={handleSnapToGround}
+                        onClick={handleDropToSurface}
                         className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white"
-                        title="Snap to Ground"
+                        title="Drop to Surface"
                     >
                         <ArrowDownToLine className="w-4 h-4" />
+                    </button>
+                     <button 
+                        onClick={handleSettle}
+                        className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white"
+                        title="Settle with Physics"
+                    >
+                        <Anvil className="w-4 h-4" />
                     </button>
                      <button 
                         onClick={handleResetRotation}
@@ -449,10 +966,131 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                     >
                         <Navigation className="w-4 h-4" />
                     </button>
+                    <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+                    <div className="relative flex items-center">
+                        <button 
+                            onClick={() => setSnap({ ...snap, enabled: !snap.enabled })}
+                            className={`p-1.5 rounded-md transition-colors ${snap.enabled ? 'bg-indigo-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                            title="Snap While Transforming"
+                        >
+                            <Magnet className="w-4 h-4" />
+                        </button>
+                        <button 
+                            onClick={() => setIsSnapMenuOpen(!isSnapMenuOpen)}
+                            className="p-0.5 rounded-md text-zinc-500 hover:text-white"
+                            title="Snap Increments"
+                        >
+                            <ChevronDown className="w-3 h-3" />
+                        </button>
+                        {isSnapMenuOpen && (
+                            <div className="absolute left-0 top-full mt-2 w-48 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-3 z-20 space-y-2">
+                                <div className="text-[10px] text-zinc-500 uppercase tracking-wider">Snap Increments</div>
+                                {([
+                                    { key: 'translate', label: 'Move', step: 0.05, unit: 'm' },
+                                    { key: 'rotate', label: 'Rotate', step: 5, unit: '°' },
+                                    { key: 'scale', label: 'Scale', step: 0.05, unit: '' }
+                                ] as const).map(field => (
+                                    <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-zinc-400">
+                                        <span>{field.label}{field.unit && ` (${field.unit})`}</span>
+                                        <input
+                                            type="number"
+                                            min={field.step}
+                                            step={field.step}
+                                            value={snap[field.key]}
+                                            onChange={(e) => {
+                                                const parsed = parseFloat(e.target.value);
+                                                if (!isNaN(parsed) && parsed > 0) setSnap({ ...snap, [field.key]: parsed });
+                                            }}
+                                            className="w-16 bg-zinc-950 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                 </div>
+
+                {/* Align & Distribute (multi-selection) */}
+                {isMultiSelect && (
+                    <div className="flex items-center bg-zinc-900 rounded-lg p-0.5 border border-zinc-800">
+                        <button 
+                            onClick={() => handleAlign(0, 'min')}
+                            className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white"
+                            title="Align Left"
+                        >
+                            <AlignHorizontalJustifyStart className="w-4 h-4" />
+                        </button>
+                        <button 
+                            onClick={() => handleAlign(0, 'center')}
+                            className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white"
+                            title="Align Center"
+                        >
+                            <AlignHorizontalJustifyCenter className="w-4 h-4" />
+                        </button>
+                        <button 
+                            onClick={() => handleAlign(0, 'max')}
+                            className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white"
+                            title="Align Right"
+                        >
+                            <AlignHorizontalJustifyEnd className="w-4 h-4" />
+                        </button>
+                        <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+                        <button 
+                            onClick={() => handleDistribute(0)}
+                            disabled={selectedIds.length < 3}
+                            className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="Distribute Evenly (Left to Right)"
+                        >
+                            <AlignHorizontalSpaceBetween className="w-4 h-4" />
+                        </button>
+                        <button 
+                            onClick={() => handleDistribute(2)}
+                            disabled={selectedIds.length < 3}
+                            className="p-1.5 rounded-md transition-colors text-zinc-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                            title="Distribute Evenly (Front to Back)"
+                        >
+                            <AlignVerticalSpaceBetween className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
             </div>
             
             <div className="flex items-center gap-2">
+                <div className="relative">
+                    <button 
+                        onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                        disabled={isExporting}
+                        className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+                        title="Export Scene"
+                    >
+                        {isExporting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <FileBox className="w-4 h-4" />}
+                    </button>
+                    {isExportMenuOpen && (
+                        <div className="absolute right-0 top-full mt-2 w-48 bg-zinc-900 border border-zinc-700 rounded-lg shadow-2xl z-50 overflow-hidden">
+                            <button 
+                                onClick={() => handleExportScene('glb')}
+                                className="w-full text-left px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors"
+                            >
+                                Export glTF (.glb)
+                                <span className="block text-[10px] text-zinc-500">Blender, Maya, Cinema 4D</span>
+                            </button>
+                            <button 
+                                onClick={() => handleExportScene('usdz')}
+                                className="w-full text-left px-3 py-2 text-xs text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors border-t border-zinc-800"
+                            >
+                                Export USDZ (.usdz)
+                                <span className="block text-[10px] text-zinc-500">AR Quick Look preview</span>
+                            </button>
+                        </div>
+                    )}
+                </div>
+                <button 
+                    onClick={() => setIsTimelineOpen(!isTimelineOpen)}
+                    className={`p-2 rounded-lg transition-colors ${isTimelineOpen ? 'text-indigo-400 bg-indigo-900/20' : 'text-zinc-400 hover:text-white'}`}
+                    title="Animation Timeline"
+                >
+                    <Clapperboard className="w-4 h-4" />
+                </button>
                 <button 
                     onClick={() => setIsSettingsOpen(true)}
                     className={`p-2 rounded-lg transition-colors ${consistencySettings.mode === 'strict_catalog' ? 'text-indigo-400 bg-indigo-900/20' : 'text-zinc-400 hover:text-white'}`}
@@ -461,10 +1099,17 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                     <Settings2 className="w-4 h-4" />
                 </button>
                 <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+                <button 
+                    onClick={handleDuplicateObjects}
+                    className="p-2 hover:bg-zinc-800 rounded-lg text-zinc-400 hover:text-white transition-colors"
+                    title={isMultiSelect ? `Duplicate ${selectedIds.length} Objects` : 'Duplicate Object'}
+                >
+                    <Copy className="w-4 h-4" />
+                </button>
                 <button 
                     onClick={handleDeleteObject}
                     className="p-2 hover:bg-red-900/20 rounded-lg text-zinc-400 hover:text-red-400 transition-colors"
-                    title="Delete Object"
+                    title={isMultiSelect ? `Delete ${selectedIds.length} Objects` : 'Delete Object'}
                 >
                     <Trash2 className="w-4 h-4" />
                 </button>
@@ -494,22 +1139,60 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
               config={config} 
               objects={objects}
               activeObjectId={activeObjectId}
-              onObjectSelect={(id) => {
-                setActiveObjectId(id);
-                setIsStudioCameraSelected(false);
-              }}
+              selectedObjectIds={isStudioCameraSelected ? [] : selectedIds}
+              onObjectSelect={handleSelectObject}
+              onMarqueeSelect={handleMarqueeSelect}
+              onObjectsTransformChange={handleObjectsChange}
               transformMode={transformMode}
+              snap={snap}
               onTransformChange={handleTransformChange}
+              partEditMode={isPartEditMode}
+              activePartIndex={activePartIndex}
+              onPartSelect={setActivePartIndex}
+              onPartTransformChange={handlePartChange}
+              activeLightId={activeLightId}
+              onLightSelect={selectLight}
+              onLightChange={handleLightChange}
+              studioCamera={studioCamera}
+              studioCameraAspect={getOutputAspect(outputFormat)}
+              isStudioCameraSelected={isStudioCameraSelected}
+              onStudioCameraSelect={selectStudioCamera}
+              onStudioCameraChange={handleStudioCameraChange}
             />
             
             {/* Studio Camera Preview (Picture-in-Picture) */}
             <CameraPreview
               config={config}
-              objects={objects}
-              studioCamera={studioCamera}
+              objects={animationPose ? applyAnimationPose(objects, animationPose) : objects}
+              ref={cameraPreviewRef}
+              studioCamera={animationPose ? { ...studioCamera, ...animationPose.camera } : studioCamera}
+              outputFormat={outputFormat}
+              cameras={cameras}
+              activeCameraId={activeCamera.id}
+              onSelectCamera={(id) => { setActiveCameraId(id); setCameraDraft(null); }}
               onCapture={setCameraPreviewImage}
             />
             
+            {isTimelineOpen && (
+                <AnimationTimeline
+                    animation={animation}
+                    onChange={(newAnimation) => updateConfig({ ...config, animation: newAnimation })}
+                    time={playhead}
+                    onTimeChange={handlePlayheadChange}
+                    onAddKeyframe={handleAddKeyframe}
+                    aspect={getOutputAspect(outputFormat)}
+                    exportProgress={clipExportProgress}
+                    onExport={handleExportClip}
+                    onClose={() => setIsTimelineOpen(false)}
+                />
+            )}
+
+            {isFocusPicking && (
+                <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 px-3 py-1.5 rounded-full bg-red-600/90 text-white text-xs shadow-lg pointer-events-none">
+                    Click an object to focus the studio camera on it
+                </div>
+            )}
+
             {/* Loading Overlay */}
             {isProcessingPrompt && (
                 <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -527,6 +1210,10 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
             onClose={() => setIsBatchModalOpen(false)}
             onGenerate={handleBatchGenerate}
             currentObjectName={activeObject.name}
+            cameras={cameras}
+            activeCameraId={activeCamera.id}
+            onGenerateTurntable={handleGenerateTurntable}
+            cameraElevation={getCameraElevation(studioCamera)}
         />
 
         {/* Move Object Dialog */}
@@ -597,26 +1284,23 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
               <div className="space-y-3">
                   <div>
                       <div className="flex justify-between text-xs mb-1">
-                          <span>Key Intensity</span>
-                          <span>{(config.lighting.keyLightIntensity).toFixed(1)}</span>
+                          <span>Ambient</span>
+                          <span>{(config.lighting.ambientIntensity).toFixed(1)}</span>
                       </div>
                       <input 
                           type="range" 
-                          min="0" max="3" step="0.1"
-                          value={config.lighting.keyLightIntensity}
-                          onChange={(e) => updateLighting({ keyLightIntensity: parseFloat(e.target.value) })}
+                          min="0" max="2" step="0.1"
+                          value={config.lighting.ambientIntensity}
+                          onChange={(e) => updateLighting({ ambientIntensity: parseFloat(e.target.value) })}
                           className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                       />
                   </div>
-                  <div className="flex items-center justify-between">
-                      <span className="text-xs text-zinc-400">Key Color</span>
-                      <input 
-                          type="color" 
-                          value={config.lighting.keyLightColor}
-                          onChange={(e) => updateLighting({ keyLightColor: e.target.value })}
-                          className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
-                      />
-                  </div>
+                  <LightRigEditor 
+                      lights={config.lighting.lights} 
+                      onChange={(lights) => updateLighting({ lights })} 
+                      activeLightId={activeLightId}
+                      onActiveLightChange={selectLight}
+                  />
                   <div className="flex items-center justify-between pt-2 border-t border-zinc-700/50">
                       <span className="text-xs text-zinc-400">Background</span>
                       <input 
@@ -626,6 +1310,38 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                           className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
                       />
                   </div>
+                  <HdriEditor 
+                      hdri={config.environment.hdri} 
+                      onChange={(hdri) => updateEnvironment({ hdri })} 
+                  />
+              </div>
+          </div>
+
+          {/* OUTPUT FORMAT */}
+          <div className="bg-zinc-800/50 rounded-lg p-3 mb-4">
+              <label className="text-xs font-medium text-zinc-400 mb-3 block uppercase tracking-wider flex items-center gap-2">
+                  <Frame className="w-3 h-3" /> Output Format
+              </label>
+              <OutputFormatEditor
+                  format={config.outputFormat ?? DEFAULT_OUTPUT_FORMAT}
+                  onChange={(format) => updateConfig({ ...config, outputFormat: format })}
+              />
+          </div>
+
+          {/* SET PIECES */}
+          <div className="bg-zinc-800/50 rounded-lg p-3 mb-4">
+              <label className="text-xs font-medium text-zinc-400 mb-3 block uppercase tracking-wider flex items-center gap-2">
+                  <Boxes className="w-3 h-3" /> Set & Backdrop
+              </label>
+              <div className="space-y-3">
+                  <SetPieceEditor 
+                      setPieces={config.environment.setPieces ?? []} 
+                      onChange={handleSetPiecesChange} 
+                  />
+                  <CycloramaEditor 
+                      cyclorama={config.environment.cyclorama} 
+                      onChange={(cyclorama) => updateEnvironment({ cyclorama })} 
+                  />
               </div>
           </div>
 
@@ -635,6 +1351,29 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
               <label className="text-xs font-medium text-red-400 mb-3 block uppercase tracking-wider flex items-center gap-2">
                   <Video className="w-3 h-3" /> Studio Camera
               </label>
+
+              <div className="flex items-center gap-1.5 mb-4">
+                <input
+                  value={activeCamera.name}
+                  onChange={(e) => updateStudioCamera({ name: e.target.value })}
+                  className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+                />
+                <button
+                  onClick={handleDuplicateCamera}
+                  className="p-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-400 hover:text-white"
+                  title="Duplicate camera"
+                >
+                  <Copy className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={handleDeleteCamera}
+                  disabled={cameras.length <= 1}
+                  className="p-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-400 hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+                  title="Delete camera"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
               
               {/* Camera View Presets - 360° Views */}
               <div className="mb-4">
@@ -697,6 +1436,70 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-1.5 mb-4">
+                <button 
+                  onClick={handleAlignCameraToViewport}
+                  className="flex items-center justify-center gap-1 text-[10px] py-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-300 hover:text-white transition-colors"
+                  title="Move the studio camera to the current viewport view"
+                >
+                  <Crosshair className="w-3 h-3" /> Align to View
+                </button>
+                <button 
+                  onClick={handleLookThroughCamera}
+                  className="flex items-center justify-center gap-1 text-[10px] py-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-300 hover:text-white transition-colors"
+                  title="Move the viewport to the studio camera's view"
+                >
+                  <Eye className="w-3 h-3" /> Look Through
+                </button>
+              </div>
+
+              {/* Framing */}
+              <div className="mb-4 space-y-2">
+                <div className="text-[10px] text-red-400/80 uppercase tracking-wider">Framing</div>
+                <div className="grid grid-cols-2 gap-1.5">
+                  <button 
+                    onClick={() => handleFrameSubject(selectedIds)}
+                    disabled={selectedIds.length === 0}
+                    className="flex items-center justify-center gap-1 text-[10px] py-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-300 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title="Fit the selected objects in the shot"
+                  >
+                    <Scan className="w-3 h-3" /> Frame Selected
+                  </button>
+                  <button 
+                    onClick={() => handleFrameSubject('all')}
+                    disabled={objects.length === 0}
+                    className="flex items-center justify-center gap-1 text-[10px] py-1.5 bg-zinc-800 hover:bg-red-800/50 rounded text-zinc-300 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                    title="Fit every object in the shot"
+                  >
+                    <Fullscreen className="w-3 h-3" /> Frame All
+                  </button>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <span className="text-[10px] text-zinc-500 w-6">Fill</span>
+                  {FRAME_FILL_PRESETS.map(fill => (
+                    <button
+                      key={fill}
+                      onClick={() => setFraming({ ...framing, fill })}
+                      className={`flex-1 text-[10px] py-1 rounded transition-colors ${framing.fill === fill ? 'bg-red-700 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+                    >
+                      {Math.round(fill * 100)}%
+                    </button>
+                  ))}
+                </div>
+                <div className="flex bg-zinc-800 p-0.5 rounded">
+                  {(['dolly', 'zoom'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setFraming({ ...framing, mode })}
+                      className={`flex-1 text-[10px] py-1 rounded transition-colors ${framing.mode === mode ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                      title={mode === 'dolly' ? 'Move the camera along its view direction' : 'Keep the camera in place and change its field of view'}
+                    >
+                      {mode === 'dolly' ? 'Dolly' : 'Zoom'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               {/* Fine-tune controls */}
               <div className="space-y-3 pt-3 border-t border-red-800/30">
                   <div className="text-[10px] text-red-400/80 uppercase tracking-wider">Fine Tune</div>
@@ -745,18 +1548,100 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
                           className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
                       />
                   </div>
-                  <div className="pt-2 border-t border-red-800/30">
-                      <div className="flex justify-between text-xs mb-1">
-                          <span>FOV</span>
-                          <span>{studioCamera.fov}°</span>
+                  <div>
+                      <span className="text-xs block mb-1">Look At</span>
+                      <div className="flex gap-1">
+                          {([0, 1, 2] as const).map(axis => (
+                              <input
+                                  key={axis}
+                                  type="number"
+                                  step={0.1}
+                                  value={Math.round(studioCamera.lookAt[axis] * 100) / 100}
+                                  onChange={(e) => {
+                                      const parsed = parseFloat(e.target.value);
+                                      if (isNaN(parsed)) return;
+                                      const lookAt: [number, number, number] = [...studioCamera.lookAt];
+                                      lookAt[axis] = parsed;
+                                      updateStudioCamera({ lookAt });
+                                  }}
+                                  className="w-full min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+                              />
+                          ))}
                       </div>
-                      <input 
-                          type="range" 
-                          min="20" max="120" step="1"
-                          value={studioCamera.fov}
-                          onChange={(e) => updateStudioCamera({ fov: parseInt(e.target.value) })}
-                          className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
+                  </div>
+                  <div className="pt-2 border-t border-red-800/30 space-y-3">
+                      <div className="flex bg-zinc-800 p-0.5 rounded">
+                          {(['perspective', 'orthographic'] as const).map(projection => (
+                              <button
+                                  key={projection}
+                                  onClick={() => {
+                                      setIsFocusPicking(false);
+                                      updateStudioCamera({ projection });
+                                  }}
+                                  className={`flex-1 text-[10px] py-1 rounded transition-colors ${(studioCamera.projection || 'perspective') === projection ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                                  title={projection === 'orthographic' ? 'No perspective distortion, for spec sheets and flat lays' : 'Lens perspective, like a real camera'}
+                              >
+                                  {projection === 'perspective' ? 'Perspective' : 'Orthographic'}
+                              </button>
+                          ))}
+                      </div>
+                      {isOrthographic(studioCamera) ? (
+                          <div>
+                              <div className="flex justify-between text-xs mb-1">
+                                  <span>Zoom</span>
+                                  <span>{(studioCamera.zoom ?? 1).toFixed(2)}×</span>
+                              </div>
+                              <input 
+                                  type="range" 
+                                  min="0.25" max="8" step="0.05"
+                                  value={studioCamera.zoom ?? 1}
+                                  onChange={(e) => updateStudioCamera({ zoom: parseFloat(e.target.value) })}
+                                  className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
+                              />
+                          </div>
+                      ) : (
+                          <div>
+                              <div className="flex justify-between text-xs mb-1">
+                                  <span>FOV</span>
+                                  <span>{Math.round(studioCamera.fov)}°</span>
+                              </div>
+                              <input 
+                                  type="range" 
+                                  min="20" max="120" step="1"
+                                  value={studioCamera.fov}
+                                  onChange={(e) => updateStudioCamera({ fov: parseInt(e.target.value) })}
+                                  className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-red-500"
+                              />
+                          </div>
+                      )}
+                  </div>
+                  {!isOrthographic(studioCamera) && (
+                      <LensEditor
+                          camera={studioCamera}
+                          onChange={updateStudioCamera}
+                          isFocusPicking={isFocusPicking}
+                          onToggleFocusPick={() => setIsFocusPicking(prev => !prev)}
                       />
+                  )}
+                  <div className="pt-2 border-t border-red-800/30 space-y-2">
+                      <label className="flex items-center justify-between text-xs text-zinc-400 cursor-pointer">
+                          <span className="text-[10px] text-red-400/80 uppercase tracking-wider">Shot Format</span>
+                          <span className="flex items-center gap-1.5">
+                              <span className="text-[10px]">Use project format</span>
+                              <input
+                                  type="checkbox"
+                                  checked={!activeCamera.outputFormat}
+                                  onChange={(e) => updateStudioCamera({ outputFormat: e.target.checked ? undefined : outputFormat })}
+                                  className="accent-red-500"
+                              />
+                          </span>
+                      </label>
+                      {activeCamera.outputFormat && (
+                          <OutputFormatEditor
+                              format={activeCamera.outputFormat}
+                              onChange={(format) => updateStudioCamera({ outputFormat: format })}
+                          />
+                      )}
                   </div>
               </div>
               <p className="text-[10px] text-red-400/60 mt-2">
@@ -765,39 +1650,123 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
             </div>
           )}
 
-          {/* OBJECT SETTINGS - Show when object is selected */}
+          {/* HIERARCHY - Parent assignment for the selected object */}
           {!isStudioCameraSelected && activeObject && (
-            <div className="bg-zinc-800/50 rounded-lg p-3 mb-6">
+            <div className="bg-zinc-800/50 rounded-lg p-3 mb-4">
+              <label className="text-xs font-medium text-zinc-400 mb-2 block uppercase tracking-wider flex items-center gap-2">
+                  <GitBranch className="w-3 h-3" /> Hierarchy
+              </label>
+              <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-zinc-400">Parent</span>
+                  <select
+                      value={activeObject.parentId && objects.some(o => o.id === activeObject.parentId) ? activeObject.parentId : ''}
+                      onChange={(e) => handleSetParent(e.target.value)}
+                      className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+                  >
+                      <option value="">None (scene root)</option>
+                      {objects
+                        .filter(o => o.id !== activeObject.id && !getDescendantIds(objects, activeObject.id).has(o.id))
+                        .map(o => (
+                          <option key={o.id} value={o.id}>{o.name}</option>
+                        ))}
+                  </select>
+              </div>
+            </div>
+          )}
+
+          {/* OBJECT SETTINGS - Show when object is selected */}
+          {!isStudioCameraSelected && activeObject && activeObject.type !== 'group' && (
+            <div className={`rounded-lg p-3 mb-6 ${activePart ? 'bg-amber-900/20 border border-amber-800/50' : 'bg-zinc-800/50'}`}>
               <label className="text-xs font-medium text-zinc-400 mb-2 block uppercase tracking-wider flex items-center gap-2">
                   <Palette className="w-3 h-3" /> Material
+                  {isMultiSelect && !activePart && <span className="text-indigo-400 normal-case tracking-normal">{selectedIds.length} objects</span>}
+                  {activePart && <span className="text-amber-400 normal-case tracking-normal">Part {activePartIndex! + 1} ({activePart.shape})</span>}
               </label>
+
+              {/* Part picker - parts can also be clicked in the viewport */}
+              {isPartEditMode && canEditParts && (
+                <div className="flex items-center justify-between gap-2 mb-3">
+                    <span className="text-xs text-zinc-400">Part</span>
+                    <select
+                        value={activePartIndex ?? ''}
+                        onChange={(e) => setActivePartIndex(e.target.value === '' ? null : parseInt(e.target.value))}
+                        className="flex-1 min-w-0 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200"
+                    >
+                        <option value="">Whole object</option>
+                        {activeObject.parts!.map((part, index) => (
+                            <option key={index} value={index}>Part {index + 1} ({part.shape})</option>
+                        ))}
+                    </select>
+                </div>
+              )}
+
               <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                      <span className="text-xs text-zinc-400">Color</span>
+                      <input 
+                          type="color" 
+                          value={materialTarget.color}
+                          onChange={(e) => updateMaterial({ color: e.target.value })}
+                          className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+                      />
+                  </div>
                   <div>
                       <div className="flex justify-between text-xs mb-1">
                           <span>Roughness</span>
-                          <span>{(activeObject.roughness ?? 0.5).toFixed(2)}</span>
+                          <span>{(materialTarget.roughness ?? 0.5).toFixed(2)}</span>
                       </div>
                       <input 
                           type="range" 
                           min="0" max="1" step="0.01" 
-                          value={activeObject.roughness ?? 0.5} 
-                          onChange={(e) => handleTransformChange(activeObjectId, { roughness: parseFloat(e.target.value) })}
+                          value={materialTarget.roughness ?? 0.5} 
+                          onChange={(e) => updateMaterial({ roughness: parseFloat(e.target.value) })}
                           className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                       />
                   </div>
                   <div>
                       <div className="flex justify-between text-xs mb-1">
                           <span>Metalness</span>
-                          <span>{(activeObject.metalness ?? 0.5).toFixed(2)}</span>
+                          <span>{(materialTarget.metalness ?? 0.5).toFixed(2)}</span>
                       </div>
                        <input 
                           type="range" 
                           min="0" max="1" step="0.01" 
-                          value={activeObject.metalness ?? 0.5} 
-                          onChange={(e) => handleTransformChange(activeObjectId, { metalness: parseFloat(e.target.value) })}
+                          value={materialTarget.metalness ?? 0.5} 
+                          onChange={(e) => updateMaterial({ metalness: parseFloat(e.target.value) })}
                           className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                       />
                   </div>
+
+                  {/* Imported models keep the materials authored in their glTF file */}
+                  {activeObject.type !== 'mesh' && (
+                      <>
+                          <TextureMapsEditor 
+                              maps={materialTarget.maps} 
+                              onChange={(maps) => updateMaterial({ maps })} 
+                          />
+                          <PhysicalMaterialEditor 
+                              material={materialTarget} 
+                              onChange={updateMaterial} 
+                          />
+                      </>
+                  )}
+
+                  {/* Shape parameters of the selected parametric part */}
+                  {activePart && activePartIndex != null && PART_SHAPE_PARAMS[activePart.shape]?.map(param => (
+                      <div key={param.key}>
+                          <div className="flex justify-between text-xs mb-1">
+                              <span>{param.label}</span>
+                              <span>{(activePart[param.key] ?? PART_SHAPE_DEFAULTS[param.key]).toFixed(2)}</span>
+                          </div>
+                          <input 
+                              type="range" 
+                              min={param.min} max={param.max} step={param.step}
+                              value={activePart[param.key] ?? PART_SHAPE_DEFAULTS[param.key]}
+                              onChange={(e) => handlePartChange(activeObjectId, activePartIndex, { [param.key]: parseFloat(e.target.value) })}
+                              className="w-full h-1 bg-zinc-600 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                          />
+                      </div>
+                  ))}
               </div>
             </div>
           )}
@@ -834,20 +1803,34 @@ export const Studio: React.FC<StudioProps> = ({ project, onUpdateProject, onBack
         <div className="flex-1 overflow-y-auto p-5 border-t border-zinc-800 min-h-0">
             <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-4">Production Gallery</h3>
             <div className="grid grid-cols-1 gap-4">
-                {images.map(img => (
-                    <div key={img.id} className="group relative rounded-lg overflow-hidden border border-zinc-800 bg-zinc-950">
-                        <img src={img.url} alt="Generated" className="w-full h-auto object-cover" />
-                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                            <a href={img.url} download={`fibo-studio-${img.id}.png`} className="p-2 bg-white text-black rounded-full hover:bg-zinc-200">
-                                <Download className="w-4 h-4" />
-                            </a>
+                {images.map((img, i) => {
+                    // Spin set frames share one card, shown where the newest frame is
+                    if (img.spinSet) {
+                        const setId = img.spinSet.id;
+                        if (images.findIndex(other => other.spinSet?.id === setId) !== i) return null;
+                        const frames = images
+                            .filter(other => other.spinSet?.id === setId)
+                            .sort((a, b) => a.spinSet!.index - b.spinSet!.index);
+                        return <SpinSetViewer key={setId} frames={frames} />;
+                    }
+                    return (
+                        <div key={img.id} className="group relative rounded-lg overflow-hidden border border-zinc-800 bg-zinc-950">
+                            <img src={img.url} alt="Generated" className="w-full h-auto object-cover" />
+                            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                                <a href={img.url} download={`fibo-studio-${img.id}.png`} className="p-2 bg-white text-black rounded-full hover:bg-zinc-200">
+                                    <Download className="w-4 h-4" />
+                                </a>
+                            </div>
+                            <div className="p-2 border-t border-zinc-900">
+                                <p className="text-[10px] text-zinc-500 truncate">
+                                    {new Date(img.timestamp).toLocaleTimeString()}
+                                    {img.cameraName && <span className="text-red-400/80"> · {img.cameraName}</span>}
+                                </p>
+                                <p className="text-[10px] text-zinc-400 truncate">{img.promptUsed}</p>
+                            </div>
                         </div>
-                        <div className="p-2 border-t border-zinc-900">
-                            <p className="text-[10px] text-zinc-500 truncate">{new Date(img.timestamp).toLocaleTimeString()}</p>
-                            <p className="text-[10px] text-zinc-400 truncate">{img.promptUsed}</p>
-                        </div>
-                    </div>
-                ))}
+                    );
+                })}
                 {images.length === 0 && (
                     <div className="text-center py-10 text-zinc-600 text-sm">
                         <Camera className="w-8 h-8 mx-auto mb-2 opacity-20" />
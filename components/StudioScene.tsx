@@ -0,0 +1,318 @@
+import React, { useRef, useImperativeHandle, forwardRef, useMemo, useLayoutEffect, Suspense } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { ContactShadows, Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js';
+import { StudioConfig, StudioObject, ObjectPart, StudioLight, SetPiece } from '../types';
+import { MeshModel } from './MeshModel';
+import { PartGeometry } from './PartGeometry';
+import { Cyclorama } from './Cyclorama';
+import { ObjectMaterial } from './ObjectMaterial';
+import { getRootObjects, getChildObjects } from '../services/sceneGraph';
+import { DEFAULT_HDRI, DEFAULT_CYCLORAMA } from '../constants';
+import { FLOOR_Y, getSetPieceSolids } from '../services/setPieceService';
+import { getSurfaceMaterial } from '../services/surfaceTextureService';
+
+/**
+ * Studio Scene - The product scene shared by the editor viewport and the studio camera
+ *
+ * Scene3D and CameraPreview both render this module, so every object type, light and
+ * environment feature shows up identically in the preview snapshot that feeds generation.
+ * Editor-only helpers (grid, gizmos, orbit controls) stay in Scene3D.
+ */
+
+// Marks nodes that belong to the product scene (see services/exportService)
+export const EXPORTABLE = { exportable: true };
+
+const SetPieceMesh: React.FC<{ piece: SetPiece }> = ({ piece }) => {
+  const material = useMemo(() => getSurfaceMaterial(piece.surface, piece.color), [piece.surface, piece.color]);
+
+  return (
+    <group name={piece.name} userData={EXPORTABLE} position={piece.position} rotation={[0, piece.rotation, 0]}>
+      {getSetPieceSolids(piece).map((solid, index) => (
+        <mesh key={index} position={solid.position} castShadow receiveShadow>
+          {solid.kind === 'box'
+            ? <boxGeometry args={solid.size} />
+            : <cylinderGeometry args={[solid.radiusTop, solid.radiusBottom, solid.height, 64]} />}
+          {/* Textured surfaces carry their color in the map */}
+          <meshPhysicalMaterial color={material.map ? '#ffffff' : piece.color} {...material} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+interface PartMeshProps {
+  part: ObjectPart;
+  isSelected?: boolean;
+  onClick?: (e: ThreeEvent<MouseEvent>) => void;
+}
+
+// Component to render individual parts of a compound object
+const PartMesh = forwardRef<THREE.Mesh, PartMeshProps>(({ part, isSelected, onClick }, ref) => (
+  <mesh
+    ref={ref}
+    position={new THREE.Vector3(...part.position)}
+    rotation={new THREE.Euler(...part.rotation)}
+    scale={new THREE.Vector3(...part.scale)}
+    castShadow
+    receiveShadow
+    onClick={onClick}
+  >
+    <PartGeometry part={part} />
+    <ObjectMaterial source={part} highlighted={isSelected} />
+  </mesh>
+));
+
+PartMesh.displayName = 'PartMesh';
+
+const PrimitiveGeometry: React.FC<{ shape?: StudioObject['shape'] }> = ({ shape }) => {
+  switch (shape) {
+    case 'cube': return <boxGeometry args={[1.2, 1.2, 1.2]} />;
+    case 'sphere': return <sphereGeometry args={[0.8, 32, 32]} />;
+    case 'cylinder': return <cylinderGeometry args={[0.8, 0.8, 1.5, 32]} />;
+    case 'torus': return <torusGeometry args={[0.6, 0.2, 16, 32]} />;
+    default: return <torusKnotGeometry args={[0.6, 0.2, 100, 16]} />;
+  }
+};
+
+interface SceneObjectProps {
+  object: StudioObject;
+  isSelected?: boolean;
+  onClick?: (e: ThreeEvent<MouseEvent>) => void;
+  children?: React.ReactNode; // Child objects, rendered in this object's local space
+  // Only set while this object is being edited in part edit mode
+  activePartIndex?: number | null;
+  onPartClick?: (index: number, e: ThreeEvent<MouseEvent>) => void;
+  partRef?: (index: number, el: THREE.Mesh | null) => void;
+}
+
+const SceneObject = forwardRef<THREE.Object3D, SceneObjectProps>(({ object, isSelected, onClick, children, activePartIndex, onPartClick, partRef }, ref) => {
+  const internalRef = useRef<THREE.Group>(null);
+
+  // Merge refs
+  useImperativeHandle(ref, () => internalRef.current as THREE.Object3D);
+
+  const position = new THREE.Vector3(...(object.position || [0, 0, 0]));
+  const rotation = new THREE.Euler(...(object.rotation || [0, 0, 0]));
+  const scale = new THREE.Vector3(...(object.scale || [1, 1, 1]));
+
+  let content: React.ReactNode = null;
+
+  if (object.type === 'compound' && object.parts && object.parts.length > 0) {
+    // Render Compound Object (AI Generated Parts)
+    content = (
+      <>
+        {object.parts.map((part, index) => (
+          <PartMesh
+            key={index}
+            ref={partRef ? (el) => partRef(index, el) : undefined}
+            part={part}
+            isSelected={!!onPartClick && activePartIndex === index}
+            onClick={onPartClick ? (e) => onPartClick(index, e) : undefined}
+          />
+        ))}
+        {/* Invisible hitbox for easier selection if sparse */}
+        <mesh visible={false}>
+          <boxGeometry args={[1, 1, 1]} />
+        </mesh>
+      </>
+    );
+  } else if (object.type === 'mesh' && object.meshUrl) {
+    // Render Imported Model (glTF/GLB)
+    content = (
+      <Suspense fallback={null}>
+        <MeshModel url={object.meshUrl} />
+      </Suspense>
+    );
+  } else if (object.type !== 'group') {
+    // Fallback: Primitive Object
+    content = (
+      <mesh castShadow receiveShadow>
+        <PrimitiveGeometry shape={object.shape} />
+        {/* Visual highlight for selection */}
+        <ObjectMaterial source={object} highlighted={isSelected} />
+      </mesh>
+    );
+  }
+
+  // Every object is a transform node so children can be nested under it
+  return (
+    <group
+      ref={internalRef}
+      name={object.name}
+      userData={EXPORTABLE}
+      position={position}
+      rotation={rotation}
+      scale={scale}
+      onClick={onClick}
+    >
+      {content}
+      {children}
+    </group>
+  );
+});
+
+SceneObject.displayName = 'SceneObject';
+
+// Rect-area lights need their shader uniforms registered once
+RectAreaLightUniformsLib.init();
+
+const StudioLightNode: React.FC<{ light: StudioLight }> = ({ light }) => {
+  // Directional and spot lights aim at a target node that lives in the scene graph
+  const target = useMemo(() => new THREE.Object3D(), []);
+  const rectRef = useRef<THREE.RectAreaLight>(null);
+  const [tx, ty, tz] = light.target;
+
+  useLayoutEffect(() => {
+    rectRef.current?.lookAt(tx, ty, tz);
+  }, [light.position, tx, ty, tz]);
+
+  const common = {
+    name: light.name,
+    userData: EXPORTABLE,
+    position: new THREE.Vector3(...light.position),
+    color: light.color,
+    intensity: light.intensity
+  };
+
+  switch (light.type) {
+    case 'directional':
+      return (
+        <>
+          <directionalLight {...common} target={target} castShadow={!!light.castShadow} shadow-bias={-0.0001} />
+          <primitive object={target} position={light.target} />
+        </>
+      );
+    case 'spot':
+      return (
+        <>
+          <spotLight {...common} target={target} angle={light.angle ?? 0.5} penumbra={1} castShadow={!!light.castShadow} shadow-bias={-0.0001} />
+          <primitive object={target} position={light.target} />
+        </>
+      );
+    case 'rect_area':
+      return <rectAreaLight ref={rectRef} {...common} width={light.width ?? 2} height={light.height ?? 2} />;
+    case 'point':
+    default:
+      return <pointLight {...common} castShadow={!!light.castShadow} shadow-bias={-0.0001} />;
+  }
+};
+
+const StudioLights: React.FC<{ lighting: StudioConfig['lighting'] }> = ({ lighting }) => (
+  <>
+    <ambientLight
+      intensity={lighting.ambientIntensity ?? 0.3}
+      color={lighting.ambientColor || '#ffffff'}
+    />
+    {(lighting.lights || []).map(light => (
+      <StudioLightNode key={light.id} light={light} />
+    ))}
+  </>
+);
+
+// Image-based lighting from a preset or an uploaded .hdr/.exr
+const StudioHdriEnvironment: React.FC<{ environment: StudioConfig['environment'] }> = ({ environment }) => {
+  const hdri = { ...DEFAULT_HDRI, ...environment.hdri };
+  const rotation: [number, number, number] = [0, hdri.rotation, 0];
+
+  return (
+    // Custom maps load asynchronously; keep the rest of the scene rendering meanwhile
+    <Suspense fallback={null}>
+      <Environment
+        key={hdri.customUrl ? 'custom' : hdri.preset}
+        {...(hdri.customUrl ? { files: hdri.customUrl } : { preset: hdri.preset })}
+        background={hdri.showBackground}
+        blur={hdri.blur}
+        environmentIntensity={hdri.intensity}
+        environmentRotation={rotation}
+        backgroundRotation={rotation}
+      />
+    </Suspense>
+  );
+};
+
+// Editor-side selection and part editing hooks; the studio camera preview only collects object nodes
+export interface StudioSceneInteraction {
+  activeObjectId?: string;
+  selectedObjectIds?: string[];
+  onObjectSelect?: (id: string, additive: boolean) => void;
+  objectRef?: (id: string, el: THREE.Object3D | null) => void;
+  // Compound object whose parts are currently being edited
+  partEditObjectId?: string;
+  activePartIndex?: number | null;
+  onPartSelect?: (index: number) => void;
+  partRef?: (index: number, el: THREE.Mesh | null) => void;
+}
+
+interface StudioSceneProps extends StudioSceneInteraction {
+  config: StudioConfig;
+  objects: StudioObject[];
+  // Group holding the object hierarchy, e.g. to turn the products for a spin set frame
+  productsRef?: React.Ref<THREE.Group>;
+}
+
+/**
+ * Lights, environment, set pieces, backdrop, floor and the object hierarchy of a studio project
+ */
+export const StudioScene: React.FC<StudioSceneProps> = ({ config, objects, productsRef, ...interaction }) => {
+  const { activeObjectId, selectedObjectIds, onObjectSelect, objectRef, partEditObjectId, activePartIndex, onPartSelect, partRef } = interaction;
+  const cyclorama = useMemo(() => ({ ...DEFAULT_CYCLORAMA, ...config.environment.cyclorama }), [config.environment.cyclorama]);
+
+  // Objects nest inside their parent's group
+  const renderObjectTree = (obj: StudioObject): React.ReactNode => (
+    <SceneObject
+      key={obj.id}
+      ref={objectRef ? (el) => objectRef(obj.id, el) : undefined}
+      object={obj}
+      isSelected={!!onObjectSelect && (obj.id === activeObjectId || !!selectedObjectIds?.includes(obj.id))}
+      onClick={onObjectSelect ? (e) => {
+        e.stopPropagation();
+        onObjectSelect(obj.id, e.shiftKey || e.ctrlKey || e.metaKey);
+      } : undefined}
+      {...(partEditObjectId === obj.id ? {
+        activePartIndex,
+        onPartClick: (index: number, e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          onPartSelect?.(index);
+        },
+        partRef
+      } : {})}
+    >
+      {getChildObjects(objects, obj.id).map(child => renderObjectTree(child))}
+    </SceneObject>
+  );
+
+  return (
+    <>
+      <StudioHdriEnvironment environment={config.environment} />
+      <StudioLights lighting={config.lighting} />
+      {(config.environment.setPieces ?? []).map(piece => <SetPieceMesh key={piece.id} piece={piece} />)}
+      {cyclorama.enabled && <Cyclorama cyclorama={cyclorama} roughness={config.environment.floorRoughness} userData={EXPORTABLE} />}
+
+      <group ref={productsRef} name="Products">
+        {getRootObjects(objects).map(obj => renderObjectTree(obj))}
+      </group>
+
+      <ContactShadows
+        position={[0, FLOOR_Y + 0.05, 0]}
+        opacity={0.5}
+        scale={10}
+        blur={1.5}
+        far={4.5}
+        color="#000000"
+      />
+
+      <mesh name="Floor" userData={EXPORTABLE} rotation={[-Math.PI / 2, 0, 0]} position={[0, FLOOR_Y, 0]} receiveShadow>
+        <planeGeometry args={[50, 50]} />
+        <meshStandardMaterial
+          color={config.environment.floorColor}
+          roughness={config.environment.floorRoughness}
+          metalness={0.1}
+        />
+      </mesh>
+    </>
+  );
+};
+
+export default StudioScene;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { MaterialMaps } from '../types';
+import { TEXTURE_MAP_SLOTS } from './ObjectMaterial';
+import { readFileAsDataUrl } from '../services/modelService';
+
+type MapSlot = typeof TEXTURE_MAP_SLOTS[number]['key'];
+
+interface TextureMapsEditorProps {
+  maps?: MaterialMaps;
+  onChange: (maps: MaterialMaps) => void;
+}
+
+// Texture slots and UV tiling/offset controls for the Studio material panel
+export const TextureMapsEditor: React.FC<TextureMapsEditorProps> = ({ maps, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingSlot, setPendingSlot] = useState<MapSlot | null>(null);
+
+  const current: MaterialMaps = maps || {};
+  const repeat = current.repeat || [1, 1];
+  const offset = current.offset || [0, 0];
+
+  const openPicker = (slot: MapSlot) => {
+    setPendingSlot(slot);
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !pendingSlot) return;
+
+    try {
+      const url = await readFileAsDataUrl(file);
+      onChange({ ...current, [pendingSlot]: url });
+    } catch (err) {
+      console.error(err);
+      alert('Failed to load texture image.');
+    } finally {
+      setPendingSlot(null);
+    }
+  };
+
+  const clearSlot = (slot: MapSlot) => {
+    const next = { ...current };
+    delete next[slot];
+    onChange(next);
+  };
+
+  const updateUv = (key: 'repeat' | 'offset', axis: 0 | 1, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const source = key === 'repeat' ? repeat : offset;
+    const next: [number, number] = [source[0], source[1]];
+    next[axis] = parsed;
+    onChange({ ...current, [key]: next });
+  };
+
+  return (
+    <div className="pt-2 border-t border-zinc-700/50">
+      <div className="text-[10px] text-zinc-500 mb-2 uppercase tracking-wider">Textures</div>
+      <div className="grid grid-cols-5 gap-1.5 mb-3">
+        {TEXTURE_MAP_SLOTS.map(({ key, label }) => (
+          <div key={key} className="flex flex-col items-center gap-1">
+            <div className="relative w-full aspect-square">
+              <button
+                onClick={() => openPicker(key)}
+                className="w-full h-full rounded border border-zinc-700 bg-zinc-900 bg-cover bg-center flex items-center justify-center text-zinc-500 hover:text-white hover:border-zinc-500 transition-colors"
+                style={current[key] ? { backgroundImage: `url(${current[key]})` } : undefined}
+                title={`Upload ${label} map`}
+              >
+                {!current[key] && <ImagePlus className="w-3 h-3" />}
+              </button>
+              {current[key] && (
+                <button
+                  onClick={() => clearSlot(key)}
+                  className="absolute -top-1 -right-1 p-0.5 bg-zinc-800 rounded-full text-zinc-400 hover:text-red-400"
+                  title={`Remove ${label} map`}
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              )}
+            </div>
+            <span className="text-[9px] text-zinc-500">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {(['repeat', 'offset'] as const).map(key => (
+          <div key={key}>
+            <span className="text-zinc-400 block mb-1">{key === 'repeat' ? 'Tiling (U / V)' : 'Offset (U / V)'}</span>
+            <div className="flex gap-1">
+              {([0, 1] as const).map(axis => (
+                <input
+                  key={axis}
+                  type="number"
+                  step={key === 'repeat' ? 0.5 : 0.05}
+                  value={(key === 'repeat' ? repeat : offset)[axis]}
+                  onChange={(e) => updateUv(key, axis, e.target.value)}
+                  className="w-full min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-1 text-xs text-zinc-200"
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFile}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default TextureMapsEditor;
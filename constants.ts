@@ -1,6 +1,7 @@
 
-import { StudioConfig, StudioObject, StudioCamera } from './types';
+import { StudioConfig, StudioObject, StudioCamera, StudioHdri, StudioCyclorama } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { createThreePointRig } from './services/lightingService';
 
 export const DEFAULT_STUDIO_CAMERA: StudioCamera = {
   position: [0, 2, 5],
@@ -9,30 +10,46 @@ export const DEFAULT_STUDIO_CAMERA: StudioCamera = {
   lookAt: [0, 0, 0]
 };
 
+export const DEFAULT_HDRI: StudioHdri = {
+  preset: 'studio',
+  rotation: 0,
+  intensity: 1,
+  blur: 1,
+  showBackground: false
+};
+
+export const DEFAULT_CYCLORAMA: StudioCyclorama = {
+  enabled: false,
+  width: 14,
+  height: 6,
+  depth: 6,
+  curveRadius: 1.5,
+  distance: 4,
+  color: '#f4f4f5',
+  gradient: false,
+  gradientColor: '#a1a1aa'
+};
+
+export const HDRI_PRESETS: StudioHdri['preset'][] = [
+  'studio', 'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'sunset', 'warehouse'
+];
+
 export const DEFAULT_STUDIO_CONFIG: StudioConfig = {
   moodDescription: "Neutral clean studio lighting",
   lighting: {
     ambientIntensity: 0.3,
     ambientColor: "#ffffff",
-    keyLightIntensity: 1.0,
-    keyLightColor: "#ffffff",
-    keyLightPosition: [5, 5, 5],
-    fillLightIntensity: 0.5,
-    fillLightColor: "#e0e0e0",
-    fillLightPosition: [-5, 2, 5],
-    rimLightIntensity: 0.2,
-    rimLightColor: "#ffffff",
-    rimLightPosition: [0, 5, -5],
+    lights: createThreePointRig()
   },
   environment: {
     backgroundColor: "#18181b", // Zinc 900
     floorRoughness: 0.5,
     floorColor: "#18181b",
-    platformType: 'none',
-    platformColor: '#333333',
-    platformMaterial: 'matte'
+    setPieces: [],
+    hdri: DEFAULT_HDRI,
+    cyclorama: DEFAULT_CYCLORAMA
   },
-  studioCamera: DEFAULT_STUDIO_CAMERA
+  cameras: [{ ...DEFAULT_STUDIO_CAMERA, id: 'main-camera', name: 'Main' }]
 };
 
 export const INITIAL_OBJECT: StudioObject = {
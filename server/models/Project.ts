@@ -1,19 +1,99 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Studio light schema
+const studioLightSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, default: 'Light' },
+    type: { type: String, enum: ['directional', 'point', 'spot', 'rect_area'], default: 'point' },
+    position: { type: [Number], default: [0, 5, 5] },
+    target: { type: [Number], default: [0, 0, 0] },
+    color: { type: String, default: '#ffffff' },
+    intensity: { type: Number, default: 1.0 },
+    angle: { type: Number },
+    castShadow: { type: Boolean, default: false },
+    width: { type: Number },
+    height: { type: Number }
+  },
+  { _id: false }
+);
+
 // Lighting schema
+// The fixed key/fill/rim fields are kept so older projects can be migrated to `lights` on load
 const lightingSchema = new Schema(
   {
     ambientIntensity: { type: Number, default: 0.3 },
     ambientColor: { type: String, default: '#ffffff' },
-    keyLightIntensity: { type: Number, default: 1.0 },
-    keyLightColor: { type: String, default: '#ffffff' },
-    keyLightPosition: { type: [Number], default: [5, 5, 5] },
-    fillLightIntensity: { type: Number, default: 0.5 },
-    fillLightColor: { type: String, default: '#e0e0e0' },
-    fillLightPosition: { type: [Number], default: [-5, 2, 5] },
-    rimLightIntensity: { type: Number, default: 0.2 },
-    rimLightColor: { type: String, default: '#ffffff' },
-    rimLightPosition: { type: [Number], default: [0, 5, -5] }
+    lights: { type: [studioLightSchema], default: undefined },
+    keyLightIntensity: { type: Number },
+    keyLightColor: { type: String },
+    keyLightPosition: { type: [Number], default: undefined },
+    fillLightIntensity: { type: Number },
+    fillLightColor: { type: String },
+    fillLightPosition: { type: [Number], default: undefined },
+    rimLightIntensity: { type: Number },
+    rimLightColor: { type: String },
+    rimLightPosition: { type: [Number], default: undefined }
+  },
+  { _id: false }
+);
+
+// HDRI environment map schema (custom maps stored as data URLs)
+const hdriSchema = new Schema(
+  {
+    preset: {
+      type: String,
+      enum: ['studio', 'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'sunset', 'warehouse'],
+      default: 'studio'
+    },
+    customUrl: { type: String },
+    customFileName: { type: String },
+    rotation: { type: Number, default: 0 },
+    intensity: { type: Number, default: 1 },
+    blur: { type: Number, default: 1 },
+    showBackground: { type: Boolean, default: false }
+  },
+  { _id: false }
+);
+
+// Cyclorama (infinity cove) backdrop schema
+const cycloramaSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    width: { type: Number, default: 14 },
+    height: { type: Number, default: 6 },
+    depth: { type: Number, default: 6 },
+    curveRadius: { type: Number, default: 1.5 },
+    distance: { type: Number, default: 4 },
+    color: { type: String, default: '#f4f4f5' },
+    gradient: { type: Boolean, default: false },
+    gradientColor: { type: String, default: '#a1a1aa' }
+  },
+  { _id: false }
+);
+
+// Set piece schema (platforms, plinths, steps)
+const setPieceSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, default: 'Platform' },
+    shape: {
+      type: String,
+      enum: ['cylinder', 'box', 'round_table', 'steps'],
+      default: 'cylinder'
+    },
+    position: { type: [Number], default: [0, -1.6, 0] },
+    rotation: { type: Number, default: 0 },
+    width: { type: Number, default: 2 },
+    depth: { type: Number, default: 2 },
+    height: { type: Number, default: 1.6 },
+    steps: { type: Number },
+    color: { type: String, default: '#333333' },
+    surface: {
+      type: String,
+      enum: ['matte', 'glossy', 'wood', 'marble', 'metal'],
+      default: 'matte'
+    }
   },
   { _id: false }
 );
@@ -24,17 +104,87 @@ const environmentSchema = new Schema(
     backgroundColor: { type: String, default: '#18181b' },
     floorRoughness: { type: Number, default: 0.5 },
     floorColor: { type: String, default: '#18181b' },
+    // Left unset on older projects so the client can migrate the legacy platform
+    setPieces: { type: [setPieceSchema], default: undefined },
+    // Legacy single platform (no defaults, see setPieces)
     platformType: {
       type: String,
-      enum: ['none', 'cylinder', 'cube', 'round_table'],
-      default: 'none'
+      enum: ['none', 'cylinder', 'cube', 'round_table']
     },
-    platformColor: { type: String, default: '#333333' },
+    platformColor: { type: String },
     platformMaterial: {
       type: String,
-      enum: ['matte', 'glossy', 'wood', 'marble', 'metal'],
-      default: 'matte'
-    }
+      enum: ['matte', 'glossy', 'wood', 'marble', 'metal']
+    },
+    hdri: { type: hdriSchema, default: () => ({}) },
+    cyclorama: { type: cycloramaSchema, default: () => ({}) }
+  },
+  { _id: false }
+);
+
+// Output image format schema
+const outputFormatSchema = new Schema(
+  {
+    aspect: { type: String, enum: ['1:1', '4:5', '3:4', '4:3', '16:9', '9:16', 'custom'], default: '4:3' },
+    width: { type: Number, default: 1024 },
+    height: { type: Number, default: 768 }
+  },
+  { _id: false }
+);
+
+// Named studio camera schema
+const studioCameraSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    name: { type: String, default: 'Camera' },
+    position: { type: [Number], default: [0, 2, 5] },
+    rotation: { type: [Number], default: [0, 0, 0] },
+    fov: { type: Number, default: 50 },
+    lookAt: { type: [Number], default: [0, 0, 0] },
+    // Physical lens, unset on cameras that only have a field of view
+    focalLength: { type: Number },
+    sensor: { type: String, enum: ['full_frame', 'aps_c', 'micro_four_thirds', 'medium_format'] },
+    aperture: { type: Number },
+    focusDistance: { type: Number },
+    depthOfField: { type: Boolean },
+    projection: { type: String, enum: ['perspective', 'orthographic'] },
+    zoom: { type: Number },
+    outputFormat: { type: outputFormatSchema, default: undefined }
+  },
+  { _id: false }
+);
+
+// Animation keyframe schemas
+const objectKeyframeSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    position: { type: [Number], default: [0, 0, 0] },
+    rotation: { type: [Number], default: [0, 0, 0] },
+    scale: { type: [Number], default: [1, 1, 1] }
+  },
+  { _id: false }
+);
+
+const animationKeyframeSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    time: { type: Number, required: true },
+    easing: { type: String, enum: ['linear', 'ease_in', 'ease_out', 'ease_in_out'], default: 'ease_in_out' },
+    camera: {
+      position: { type: [Number], default: [0, 2, 5] },
+      lookAt: { type: [Number], default: [0, 0, 0] },
+      fov: { type: Number, default: 50 },
+      zoom: { type: Number }
+    },
+    objects: [objectKeyframeSchema]
+  },
+  { _id: false }
+);
+
+const animationSchema = new Schema(
+  {
+    duration: { type: Number, default: 5 },
+    keyframes: [animationKeyframeSchema]
   },
   { _id: false }
 );
@@ -44,17 +194,51 @@ const configSchema = new Schema(
   {
     lighting: { type: lightingSchema, default: () => ({}) },
     environment: { type: environmentSchema, default: () => ({}) },
-    moodDescription: { type: String, default: 'Neutral clean studio lighting' }
+    moodDescription: { type: String, default: 'Neutral clean studio lighting' },
+    // Left unset on older projects so the client creates a default camera
+    cameras: { type: [studioCameraSchema], default: undefined },
+    outputFormat: { type: outputFormatSchema, default: undefined },
+    animation: { type: animationSchema, default: undefined }
+  },
+  { _id: false }
+);
+
+// Texture maps schema (images stored as data URLs)
+const materialMapsSchema = new Schema(
+  {
+    albedoMap: { type: String },
+    normalMap: { type: String },
+    roughnessMap: { type: String },
+    metalnessMap: { type: String },
+    alphaMap: { type: String },
+    repeat: { type: [Number], default: [1, 1] },
+    offset: { type: [Number], default: [0, 0] }
   },
   { _id: false }
 );
 
+// Physical material settings shared by objects and parts
+const physicalMaterialFields = {
+  transmission: { type: Number },
+  ior: { type: Number },
+  thickness: { type: Number },
+  clearcoat: { type: Number },
+  clearcoatRoughness: { type: Number },
+  sheen: { type: Number },
+  sheenColor: { type: String },
+  emissive: { type: String },
+  emissiveIntensity: { type: Number }
+};
+
 // Object part schema
 const objectPartSchema = new Schema(
   {
     shape: {
       type: String,
-      enum: ['cube', 'sphere', 'cylinder', 'cone', 'torus'],
+      enum: [
+        'cube', 'sphere', 'cylinder', 'cone', 'torus',
+        'capsule', 'rounded_box', 'tapered_cylinder', 'lathe', 'arc'
+      ],
       required: true
     },
     position: { type: [Number], default: [0, 0, 0] },
@@ -62,7 +246,18 @@ const objectPartSchema = new Schema(
     scale: { type: [Number], default: [1, 1, 1] },
     color: { type: String, default: '#ffffff' },
     roughness: { type: Number, default: 0.5 },
-    metalness: { type: Number, default: 0.5 }
+    metalness: { type: Number, default: 0.5 },
+    maps: { type: materialMapsSchema },
+    ...physicalMaterialFields,
+    // Parametric shape settings
+    radius: { type: Number },
+    length: { type: Number },
+    cornerRadius: { type: Number },
+    radiusTop: { type: Number },
+    radiusBottom: { type: Number },
+    profile: { type: [[Number]], default: undefined },
+    arc: { type: Number },
+    tube: { type: Number }
   },
   { _id: false }
 );
@@ -72,15 +267,32 @@ const studioObjectSchema = new Schema(
   {
     id: { type: String, required: true },
     name: { type: String, required: true },
-    type: { type: String, enum: ['primitive', 'compound'], default: 'primitive' },
+    type: { type: String, enum: ['primitive', 'compound', 'mesh', 'group'], default: 'primitive' },
+    parentId: { type: String },
     shape: { type: String, enum: ['cube', 'sphere', 'torus', 'cylinder'] },
     parts: [objectPartSchema],
+    meshUrl: { type: String },
+    meshFileName: { type: String },
+    meshBounds: { type: [Number], default: undefined },
     color: { type: String, default: '#ffffff' },
     position: { type: [Number], default: [0, 0, 0] },
     rotation: { type: [Number], default: [0, 0, 0] },
     scale: { type: [Number], default: [1, 1, 1] },
     roughness: { type: Number, default: 0.5 },
-    metalness: { type: Number, default: 0.5 }
+    metalness: { type: Number, default: 0.5 },
+    maps: { type: materialMapsSchema },
+    ...physicalMaterialFields
+  },
+  { _id: false }
+);
+
+// Spin set frame schema
+const spinSetFrameSchema = new Schema(
+  {
+    id: { type: String, required: true },
+    index: { type: Number, required: true },
+    count: { type: Number, required: true },
+    mode: { type: String, enum: ['orbit_camera', 'rotate_product'], default: 'orbit_camera' }
   },
   { _id: false }
 );
@@ -92,7 +304,9 @@ const generatedImageSchema = new Schema(
     url: { type: String, required: true },
     promptUsed: { type: String },
     timestamp: { type: Number, default: Date.now },
-    objectName: { type: String }
+    objectName: { type: String },
+    cameraName: { type: String },
+    spinSet: { type: spinSetFrameSchema, default: undefined }
   },
   { _id: false }
 );
@@ -121,6 +335,9 @@ export interface IProject extends Document {
     lighting: Record<string, unknown>;
     environment: Record<string, unknown>;
     moodDescription: string;
+    cameras?: Record<string, unknown>[];
+    outputFormat?: { aspect: string; width: number; height: number };
+    animation?: Record<string, unknown>;
   };
   objects: Record<string, unknown>[];
   images: Record<string, unknown>[];
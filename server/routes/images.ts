@@ -72,8 +72,10 @@ router.post('/generate-fibo', optionalAuth, async (req, res) => {
             prompt: fullPrompt,
             num_images: req.body.num_results || 1,
             enable_safety_checker: false,
+            // Output frame of the studio camera; FAL takes no pixel size, so custom sizes arrive as the nearest aspect ratio
+            ...(req.body.aspect_ratio && { aspect_ratio: req.body.aspect_ratio }),
             // Pass through any additional FIBO parameters
-            ...(req.body.seed && { seed: req.body.seed }),
+            ...(req.body.seed != null && { seed: req.body.seed }),
             ...(req.body.guidance_scale && { guidance_scale: req.body.guidance_scale })
           })
         });
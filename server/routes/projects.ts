@@ -203,14 +203,16 @@ router.post('/:id/images', async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Demo users cannot save to database. Images are stored locally.' });
     }
 
-    const { url, promptUsed, objectName } = req.body;
+    const { url, promptUsed, objectName, cameraName, spinSet } = req.body;
 
     const image = {
       id: uuidv4(),
       url,
       promptUsed,
       timestamp: Date.now(),
-      objectName
+      objectName,
+      cameraName,
+      spinSet
     };
 
     const project = await Project.findOneAndUpdate(
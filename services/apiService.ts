@@ -93,7 +93,7 @@ export const authAPI = {
 
 // ============ PROJECTS API ============
 
-import { Project, StudioConfig, StudioObject, GeneratedImage, ConsistencySettings } from '../types';
+import { Project, StudioConfig, StudioObject, GeneratedImage, ConsistencySettings, SpinSetFrame } from '../types';
 
 export interface ProjectSummary {
   id: string;
@@ -160,6 +160,8 @@ export const projectsAPI = {
     url: string;
     promptUsed: string;
     objectName: string;
+    cameraName?: string;
+    spinSet?: SpinSetFrame;
   }): Promise<GeneratedImage> => {
     return apiRequest(`/projects/${projectId}/images`, {
       method: 'POST',
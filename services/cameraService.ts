@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NamedStudioCamera, OutputFormat, SensorFormat, StudioCamera, StudioConfig } from '../types';
+import { DEFAULT_STUDIO_CAMERA } from '../constants';
+import { getOutputOrientation, getProviderAspectRatio } from './outputFormatService';
+
+/**
+ * Camera Service - Named production cameras of a studio
+ *
+ * A project keeps a list of cameras (hero, top-down, detail...) that images can be
+ * generated from. The editor works on one active camera at a time.
+ *
+ * Cameras can also be set up like a real body and lens: focal length and sensor size
+ * give the field of view, aperture and focus distance give the depth of field.
+ * Orthographic cameras (spec sheets, flat lays) skip the lens and frame by zoom.
+ */
+
+export const SENSOR_FORMATS: Record<SensorFormat, { label: string; width: number; height: number }> = {
+  full_frame: { label: 'Full Frame', width: 36, height: 24 },
+  aps_c: { label: 'APS-C', width: 23.6, height: 15.6 },
+  micro_four_thirds: { label: 'Micro 4/3', width: 17.3, height: 13 },
+  medium_format: { label: 'Medium Format', width: 43.8, height: 32.9 }
+};
+
+export const FOCAL_LENGTH_PRESETS = [24, 35, 50, 85, 100];
+export const APERTURE_STOPS = [1.4, 2, 2.8, 4, 5.6, 8, 11, 16, 22];
+
+// Lens math treats one scene unit as 10 cm, so a product is one or two units across
+const SCENE_UNIT_MM = 100;
+const DEFAULT_APERTURE = 8;
+
+// Orthographic cameras at zoom 1 frame this many scene units of height
+const ORTHO_FRAME_HEIGHT = 4;
+
+export const focalLengthToFov = (focalLength: number, sensor: SensorFormat = 'full_frame'): number =>
+  2 * Math.atan(SENSOR_FORMATS[sensor].height / (2 * focalLength)) * 180 / Math.PI;
+
+export const fovToFocalLength = (fov: number, sensor: SensorFormat = 'full_frame'): number =>
+  SENSOR_FORMATS[sensor].height / (2 * Math.tan(fov * Math.PI / 360));
+
+const getLookAtDistance = ({ position, lookAt }: StudioCamera) =>
+  Math.hypot(position[0] - lookAt[0], position[1] - lookAt[1], position[2] - lookAt[2]);
+
+// How generators are told to draw orthographic shots
+export const ORTHOGRAPHIC_PROMPT = 'orthographic, no perspective distortion';
+
+export const isOrthographic = (camera: Pick<StudioCamera, 'projection'>) => camera.projection === 'orthographic';
+
+// Scene units of height an orthographic camera frames
+export const getOrthographicHeight = (camera: Pick<StudioCamera, 'zoom'>) => ORTHO_FRAME_HEIGHT / (camera.zoom || 1);
+
+export const getOrthographicZoom = (frameHeight: number) => Math.round(ORTHO_FRAME_HEIGHT / frameHeight * 100) / 100;
+
+// The camera's lens with defaults filled in; cameras without one get the lens matching their fov
+export const getLens = (camera: StudioCamera) => {
+  const sensor = camera.sensor || 'full_frame';
+  return {
+    sensor,
+    focalLength: camera.focalLength ?? Math.round(fovToFocalLength(camera.fov, sensor)),
+    aperture: camera.aperture ?? DEFAULT_APERTURE,
+    focusDistance: camera.focusDistance ?? getLookAtDistance(camera),
+    depthOfField: !!camera.depthOfField && !isOrthographic(camera) // Parallel projection has no focal plane
+  };
+};
+
+/**
+ * Keep fov and focal length in step: lens changes derive the fov, and a raw fov change
+ * updates the focal length of cameras that have one
+ */
+export const applyLensUpdate = (camera: StudioCamera, updates: Partial<StudioCamera>): Partial<StudioCamera> => {
+  const next = { ...camera, ...updates };
+  // Switching to orthographic keeps the height the lens framed at the look-at distance
+  if (updates.projection === 'orthographic' && next.zoom == null) {
+    return { ...updates, zoom: getOrthographicZoom(2 * getLookAtDistance(next) * Math.tan(next.fov * Math.PI / 360)) };
+  }
+  if (updates.focalLength != null || updates.sensor != null) {
+    const { focalLength, sensor } = getLens(next);
+    return { ...updates, focalLength, sensor, fov: Math.round(focalLengthToFov(focalLength, sensor) * 10) / 10 };
+  }
+  if (updates.fov != null && camera.focalLength != null) {
+    return { ...updates, focalLength: Math.round(fovToFocalLength(updates.fov, next.sensor) * 10) / 10 };
+  }
+  return updates;
+};
+
+/**
+ * Blur per scene unit away from the focus plane, as a fraction of the frame height.
+ * Thin lens circle of confusion, linearized around the focus distance.
+ */
+export const getBlurPerUnit = (camera: StudioCamera): number => {
+  const { sensor, focalLength, aperture, focusDistance } = getLens(camera);
+  const focusMm = Math.max(focusDistance * SCENE_UNIT_MM, focalLength * 1.1);
+  return SCENE_UNIT_MM * focalLength ** 2 / (aperture * (focusMm - focalLength) * focusMm * SENSOR_FORMATS[sensor].height);
+};
+
+export type DepthOfFieldLook = 'shallow' | 'moderate' | 'deep';
+
+export interface LensDescription {
+  focalLength: number;
+  aperture: number;
+  depthOfField?: DepthOfFieldLook;
+  description: string; // e.g. "85mm lens, f/1.8, shallow depth of field"
+}
+
+// Lens hints for the image generators, in the terms a photographer would use
+export const describeLens = (camera: StudioCamera): LensDescription => {
+  const { sensor, focalLength, aperture, focusDistance, depthOfField } = getLens(camera);
+  // Full-frame equivalent focal length is what prompts understand
+  const equivalent = Math.round(focalLength * SENSOR_FORMATS.full_frame.height / SENSOR_FORMATS[sensor].height);
+  const parts = [`${equivalent}mm lens`];
+  let look: DepthOfFieldLook | undefined;
+
+  if (depthOfField) {
+    // Total depth of field for a circle of confusion of 1/1500 of the sensor diagonal
+    const { width, height } = SENSOR_FORMATS[sensor];
+    const circleOfConfusion = Math.hypot(width, height) / 1500;
+    const focusMm = focusDistance * SCENE_UNIT_MM;
+    const depthUnits = 2 * aperture * circleOfConfusion * focusMm ** 2 / focalLength ** 2 / SCENE_UNIT_MM;
+    look = depthUnits < 0.5 ? 'shallow' : depthUnits < 2 ? 'moderate' : 'deep';
+    parts.push(`f/${aperture}`, look === 'shallow'
+      ? 'shallow depth of field, soft bokeh background'
+      : look === 'moderate' ? 'moderate depth of field' : 'deep depth of field, everything in focus');
+  }
+  // A long lens focused close in reads as a macro shot
+  if (equivalent >= 90 && focusDistance * SCENE_UNIT_MM <= 500) parts.push('macro close-up detail');
+
+  return { focalLength: equivalent, aperture, depthOfField: look, description: parts.join(', ') };
+};
+
+export const createStudioCamera = (overrides: Partial<NamedStudioCamera> = {}): NamedStudioCamera => ({
+  ...DEFAULT_STUDIO_CAMERA,
+  id: uuidv4(),
+  name: 'Camera',
+  ...overrides
+});
+
+// The camera with the given id, or the first one
+export const getActiveCamera = (cameras: NamedStudioCamera[], id?: string | null): NamedStudioCamera =>
+  cameras.find(c => c.id === id) || cameras[0] || createStudioCamera({ name: 'Main' });
+
+// Older projects store a single unnamed camera, or none at all
+export const migrateCameras = (config: StudioConfig): StudioConfig => {
+  if (config.cameras?.length) return config;
+  const { studioCamera, ...rest } = config;
+  return { ...rest, cameras: [createStudioCamera({ ...(studioCamera || DEFAULT_STUDIO_CAMERA), name: 'Main' })] };
+};
+
+/**
+ * Camera angles for the image generator, derived from where the camera sits
+ * relative to the origin. X is negated to match FIBO's handedness (fixes mirroring).
+ */
+export const buildCameraContext = (camera: StudioCamera, format?: OutputFormat): string => {
+  const [camX, camY, camZ] = camera.position;
+  const camDistance = Math.sqrt(camX ** 2 + camY ** 2 + camZ ** 2);
+
+  return JSON.stringify({
+    horizontal: "studio camera view",
+    vertical: "studio camera view",
+    distance: camDistance,
+    horizontalDeg: Math.round(Math.atan2(-camX, camZ) * 180 / Math.PI),
+    verticalDeg: Math.round(Math.acos(camY / camDistance) * 180 / Math.PI),
+    position: {
+      x: camX,
+      y: camY,
+      z: camZ
+    },
+    projection: camera.projection || 'perspective',
+    ...(!isOrthographic(camera) && { lens: describeLens(camera) }),
+    ...(format && {
+      output: {
+        width: format.width,
+        height: format.height,
+        aspectRatio: getProviderAspectRatio(format),
+        orientation: getOutputOrientation(format)
+      }
+    })
+  });
+};
+
+// Focus distance that puts a point in focus: its depth along the camera's view axis
+export const getFocusDistanceTo = ({ position, lookAt }: StudioCamera, point: [number, number, number]): number => {
+  const axis = lookAt.map((v, i) => v - position[i]);
+  const length = Math.hypot(...axis) || 1;
+  const depth = point.reduce((sum, v, i) => sum + (v - position[i]) * axis[i] / length, 0);
+  return Math.max(Math.round(depth * 100) / 100, 0.1);
+};
@@ -0,0 +1,89 @@
+import * as THREE from 'three';
+import { AspectRatioPreset } from '../types';
+import { ASPECT_RATIO_PRESETS } from './outputFormatService';
+
+/**
+ * Composition Service - Framing guides and frame-edge checks for the camera preview
+ *
+ * Guides are laid out in normalized frame coordinates (0-1 from the top left), so
+ * they fit any output format. Objects are checked by projecting their world bounds
+ * through the studio camera.
+ */
+
+export type CropAspect = Exclude<AspectRatioPreset, 'custom'>;
+
+export interface CompositionGuides {
+  thirds: boolean;
+  goldenRatio: boolean;
+  centerCross: boolean;
+  safeArea: number | null; // Margin as a fraction of the frame
+  aspectMask: CropAspect | null; // Crop to check inside the output frame
+}
+
+export const DEFAULT_COMPOSITION_GUIDES: CompositionGuides = {
+  thirds: false,
+  goldenRatio: false,
+  centerCross: false,
+  safeArea: null,
+  aspectMask: null
+};
+
+export const SAFE_AREA_PRESETS: { label: string; margin: number }[] = [
+  { label: 'Action safe (5%)', margin: 0.05 },
+  { label: 'Marketplace, 85% fill', margin: 0.075 },
+  { label: 'Title safe (10%)', margin: 0.1 }
+];
+
+// Golden section lines sit at 1/φ² and 1/φ of the frame
+export const GOLDEN_SECTION = (3 - Math.sqrt(5)) / 2;
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Largest centered crop of an aspect ratio inside the frame
+export const getCropRect = (frameAspect: number, crop: CropAspect): FrameRect => {
+  const cropAspect = ASPECT_RATIO_PRESETS[crop];
+  if (cropAspect >= frameAspect) {
+    const height = frameAspect / cropAspect;
+    return { x: 0, y: (1 - height) / 2, width: 1, height };
+  }
+  const width = cropAspect / frameAspect;
+  return { x: (1 - width) / 2, y: 0, width, height: 1 };
+};
+
+export type FramingIssue = 'outside' | 'edge';
+
+// Bounds this close to the frame edge (as a fraction of the frame) count as touching it
+const EDGE_TOLERANCE = 0.01;
+
+/**
+ * Whether world-space bounds leave the camera's frame or touch its edge. Bounds
+ * reaching behind the camera are outside. The camera's world matrix must be current.
+ */
+export const getFramingIssue = (bounds: THREE.Box3, camera: THREE.Camera): FramingIssue | null => {
+  if (bounds.isEmpty()) return null;
+
+  const corner = new THREE.Vector3();
+  const min = new THREE.Vector2(Infinity, Infinity);
+  const max = new THREE.Vector2(-Infinity, -Infinity);
+  for (let i = 0; i < 8; i++) {
+    corner.set(
+      i & 1 ? bounds.max.x : bounds.min.x,
+      i & 2 ? bounds.max.y : bounds.min.y,
+      i & 4 ? bounds.max.z : bounds.min.z
+    );
+    if (corner.clone().applyMatrix4(camera.matrixWorldInverse).z >= 0) return 'outside';
+    corner.project(camera);
+    min.min(new THREE.Vector2(corner.x, corner.y));
+    max.max(new THREE.Vector2(corner.x, corner.y));
+  }
+
+  if (min.x < -1 || min.y < -1 || max.x > 1 || max.y > 1) return 'outside';
+  const edge = 1 - EDGE_TOLERANCE * 2; // NDC spans 2 units
+  if (min.x <= -edge || min.y <= -edge || max.x >= edge || max.y >= edge) return 'edge';
+  return null;
+};
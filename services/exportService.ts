@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { StudioCamera } from '../types';
+import { isOrthographic, getOrthographicHeight } from './cameraService';
+
+/**
+ * Export Service - Scene export for DCC tools and AR
+ *
+ * StudioScene tags every node that belongs to the product scene (objects, platform,
+ * floor, studio lights) with `userData.exportable`. Everything else, such as the
+ * editor grid, gizmos and contact shadows, is left out of the export.
+ */
+
+export type SceneExportFormat = 'glb' | 'usdz';
+
+export const STUDIO_CAMERA_NODE_NAME = 'Studio Camera';
+
+// Copy a light into world space, pointing it at its target so the direction survives glTF export
+const cloneLightForExport = (light: THREE.Light): THREE.Light => {
+  const exported = light.clone(false) as THREE.Light;
+  light.getWorldPosition(exported.position);
+  exported.quaternion.identity();
+  exported.scale.set(1, 1, 1);
+
+  if (light instanceof THREE.DirectionalLight || light instanceof THREE.SpotLight) {
+    const targetWorld = light.target.getWorldPosition(new THREE.Vector3());
+    const target = new THREE.Object3D();
+    target.position.set(0, 0, -1);
+    exported.add(target);
+    (exported as THREE.DirectionalLight | THREE.SpotLight).target = target;
+    exported.lookAt(targetWorld);
+  } else if (light instanceof THREE.RectAreaLight) {
+    light.getWorldQuaternion(exported.quaternion);
+  }
+
+  return exported;
+};
+
+// Copy a mesh hierarchy into world space, dropping the viewport selection highlight
+const cloneObjectForExport = (node: THREE.Object3D): THREE.Object3D => {
+  const exported = node.clone(true);
+  node.updateWorldMatrix(true, false);
+  node.matrixWorld.decompose(exported.position, exported.quaternion, exported.scale);
+
+  exported.traverse((child) => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh && mesh.material instanceof THREE.MeshStandardMaterial && mesh.material.userData.selectionHighlight) {
+      const material = mesh.material.clone();
+      material.emissive.set('#000000');
+      material.emissiveIntensity = 1;
+      mesh.material = material;
+    }
+  });
+
+  return exported;
+};
+
+export const createStudioCameraNode = (studioCamera: StudioCamera, aspect = 4 / 3): THREE.Camera => {
+  const halfHeight = getOrthographicHeight(studioCamera) / 2;
+  const camera = isOrthographic(studioCamera)
+    ? new THREE.OrthographicCamera(-halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight, 0.1, 1000)
+    : new THREE.PerspectiveCamera(studioCamera.fov, aspect, 0.1, 1000);
+  camera.name = STUDIO_CAMERA_NODE_NAME;
+  camera.position.set(...studioCamera.position);
+  camera.lookAt(...studioCamera.lookAt);
+  camera.updateMatrixWorld();
+  return camera;
+};
+
+/**
+ * Build a standalone scene containing only the exportable studio content
+ */
+export const buildExportScene = (source: THREE.Scene, studioCamera: StudioCamera, aspect?: number): THREE.Scene => {
+  const exportScene = new THREE.Scene();
+  exportScene.name = 'FIBO Studio Scene';
+  source.updateMatrixWorld(true);
+
+  const collect = (node: THREE.Object3D) => {
+    if (node.userData.exportable) {
+      const exported = node instanceof THREE.Light
+        ? cloneLightForExport(node)
+        : cloneObjectForExport(node);
+      exported.name = node.name;
+      exportScene.add(exported);
+      return;
+    }
+    node.children.forEach(collect);
+  };
+  source.children.forEach(collect);
+
+  exportScene.add(createStudioCameraNode(studioCamera, aspect));
+  return exportScene;
+};
+
+export const exportSceneToGLB = async (scene: THREE.Scene): Promise<Blob> => {
+  const result = await new GLTFExporter().parseAsync(scene, { binary: true, onlyVisible: true });
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+};
+
+// USDZ carries meshes and cameras only; AR Quick Look supplies its own lighting
+export const exportSceneToUSDZ = async (scene: THREE.Scene): Promise<Blob> => {
+  const result = await new USDZExporter().parseAsync(scene, { quickLookCompatible: true });
+  return new Blob([result], { type: 'model/vnd.usdz+zip' });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportStudioScene = async (
+  source: THREE.Scene,
+  studioCamera: StudioCamera,
+  format: SceneExportFormat,
+  baseName: string,
+  aspect?: number
+): Promise<void> => {
+  const scene = buildExportScene(source, studioCamera, aspect);
+  const blob = format === 'glb' ? await exportSceneToGLB(scene) : await exportSceneToUSDZ(scene);
+  const safeName = baseName.trim().replace(/[^a-z0-9-_]+/gi, '_') || 'fibo-studio-scene';
+  downloadBlob(blob, `${safeName}.${format}`);
+};
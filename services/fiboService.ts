@@ -1,4 +1,8 @@
-import { StudioConfig, StudioObject, ConsistencySettings } from "../types";
+import { StudioConfig, StudioObject, StudioEnvironment, ConsistencySettings, CameraProjection } from "../types";
+import { describeObjectForPrompt } from "./modelService";
+import { describeObjectMaterials } from "./materialService";
+import { getKeyLight } from "./lightingService";
+import { LensDescription, ORTHOGRAPHIC_PROMPT } from "./cameraService";
 
 /**
  * BRIA FIBO Service - JSON-Native Image Generation
@@ -23,6 +27,9 @@ interface CameraData {
   horizontalDeg: number;
   verticalDeg: number;
   position: { x: number; y: number; z: number };
+  projection?: CameraProjection;
+  lens?: LensDescription;
+  output?: { width: number; height: number; aspectRatio: string; orientation: string };
 }
 
 /**
@@ -36,6 +43,8 @@ interface FiboJsonParams {
   // Generation settings
   num_results: number;
   sync: boolean;
+  aspect_ratio?: string;  // "1:1", "4:5", "16:9"...
+  seed?: number;
   
   // FIBO JSON-Native Controls
   scene?: {
@@ -49,6 +58,11 @@ interface FiboJsonParams {
     angle?: string;  // "eye_level", "high_angle", "low_angle", "bird_eye", "worm_eye"
     shot_type?: string;  // "close_up", "medium_shot", "full_shot", "wide_shot"
     position?: string;  // "front", "side", "back", "three_quarter"
+    lens?: string;  // "85mm lens, f/1.8, shallow depth of field"
+    focal_length?: string;  // "85mm"
+    aperture?: string;  // "f/1.8"
+    depth_of_field?: string;  // "shallow", "moderate", "deep"
+    projection?: string;  // "orthographic"
   };
   
   lighting?: {
@@ -68,6 +82,8 @@ interface FiboJsonParams {
   composition?: {
     framing?: string;  // "centered", "rule_of_thirds", "symmetrical"
     orientation?: string;  // "portrait", "landscape", "square"
+    aspect_ratio?: string;
+    resolution?: string;  // "1024x768"
   };
   
   style?: {
@@ -99,6 +115,49 @@ const hexToColorName = (hex: string): string => {
   return colors[hex.toLowerCase()] || hex;
 };
 
+/**
+ * Describe what is behind the product: the cyclorama sweep when there is one, then
+ * the HDRI when it is shown as the background, otherwise the plain background color and floor
+ */
+const describeBackdrop = (environment: StudioEnvironment): { name: string; color: string; prompt: string[] } => {
+  const cyclorama = environment.cyclorama;
+  if (cyclorama?.enabled) {
+    const paint = cyclorama.gradient
+      ? `${hexToColorName(cyclorama.color)} to ${hexToColorName(cyclorama.gradientColor)} gradient`
+      : hexToColorName(cyclorama.color);
+    return {
+      name: `${paint} cyclorama`,
+      color: cyclorama.color,
+      prompt: [`seamless ${paint} cyclorama backdrop, curved infinity cove from floor to wall, no visible horizon line`]
+    };
+  }
+
+  const floorColorName = hexToColorName(environment.floorColor);
+  const hdri = environment.hdri;
+  if (hdri?.showBackground) {
+    const scene = hdri.customUrl ? 'custom' : hdri.preset;
+    return {
+      name: `${scene} environment`,
+      color: environment.floorColor,
+      prompt: [`${scene} HDRI environment visible behind the product`, `${floorColorName} floor surface`]
+    };
+  }
+
+  const bgColorName = hexToColorName(environment.backgroundColor);
+  return {
+    name: `${bgColorName} background`,
+    color: environment.backgroundColor,
+    prompt: [
+      bgColorName === 'white' || bgColorName === 'light gray'
+        ? 'pure white studio background, no shadows on background'
+        : `solid ${bgColorName} background`,
+      floorColorName === 'white' || floorColorName === 'light gray'
+        ? 'white studio floor, seamless white surface'
+        : `${floorColorName} floor surface`
+    ]
+  };
+};
+
 /**
  * Convert studio config to FIBO JSON parameters
  * Optimized for exact scene reproduction with precise spatial understanding
@@ -128,6 +187,18 @@ const buildFiboJsonParams = (
   // Get object info
   const objectName = variationPrompt || objects.map(o => o.name).join(" and ");
   const mainObject = objects[0];
+
+  // Imported product models are described by name and bounding box
+  const meshObjects = objects.filter(o => o.type === 'mesh');
+  const subjectGeometry = meshObjects.length > 0
+    ? meshObjects.map(describeObjectForPrompt).join("; ")
+    : "";
+
+  // The strongest light in the rig sets the overall lighting mood
+  const keyLightIntensity = getKeyLight(config.lighting)?.intensity ?? 0;
+
+  // Glass, clearcoat, sheen and glow don't read reliably from the snapshot, so spell them out
+  const subjectMaterials = objects.map(describeObjectMaterials).filter(Boolean).join("; ");
   
   // Determine object orientation from rotation
   let objectOrientation = "upright";
@@ -242,8 +313,7 @@ const buildFiboJsonParams = (
   };
 
   // Get color names for better prompt understanding
-  const bgColorName = hexToColorName(config.environment.backgroundColor);
-  const floorColorName = hexToColorName(config.environment.floorColor);
+  const backdrop = describeBackdrop(config.environment);
   const objectColorName = mainObject ? hexToColorName(mainObject.color) : "neutral";
 
   // Build the most precise prompt possible
@@ -256,23 +326,22 @@ const buildFiboJsonParams = (
     
     // CRITICAL: View type enforcement
     `[VIEW TYPE] ${viewType} view from ${horizontalView} angle`,
+    cameraData.lens ? `[LENS] ${cameraData.lens.description}` : "",
+    cameraData.projection === 'orthographic' ? `[PROJECTION] ${ORTHOGRAPHIC_PROMPT}` : "",
     
     // Subject details
+    subjectGeometry ? `[SUBJECT GEOMETRY] ${subjectGeometry}` : "",
+    subjectMaterials ? `[MATERIALS] ${subjectMaterials}` : "",
     objectColorName !== "neutral" ? `${objectColorName} colored` : "",
     objectOrientation !== "upright" ? objectPose : "standing upright",
     
     // Background - EXACT specification for studio
-    bgColorName === 'white' || bgColorName === 'light gray'
-      ? 'pure white studio background, clean white cyclorama, no shadows on background'
-      : `solid ${bgColorName} background`,
-    floorColorName === 'white' || floorColorName === 'light gray'
-      ? 'white studio floor, seamless white surface'
-      : `${floorColorName} floor surface`,
+    ...backdrop.prompt,
     
     // Studio lighting - CRITICAL for consistency
     style === 'professional' 
-      ? 'professional studio product photography, three-point lighting setup, key light from front-left, fill light from front-right, back light for separation, photorealistic rendering, 8K resolution, commercial quality, perfectly lit, studio environment, white cyclorama background, clean shadows, professional lighting'
-      : 'clean studio product photograph, soft studio lighting, white background, simple professional lighting, well-lit, studio environment',
+      ? 'professional studio product photography, three-point lighting setup, key light from front-left, fill light from front-right, back light for separation, photorealistic rendering, 8K resolution, commercial quality, perfectly lit, studio environment, clean shadows, professional lighting'
+      : 'clean studio product photograph, soft studio lighting, simple professional lighting, well-lit, studio environment',
     
     // CRITICAL: Negative constraints - DO NOT CHANGE VIEW
     'DO NOT change camera angle',
@@ -297,12 +366,13 @@ const buildFiboJsonParams = (
     prompt: promptParts,
     num_results: 1,
     sync: true,
+    ...(cameraData.output && { aspect_ratio: cameraData.output.aspectRatio }),
 
     // Scene control
     scene: {
       subject: objectName,
-      subject_description: `${objectColorName} ${objectName}, ${objectOrientation}, isolated on ${bgColorName} background, viewed from ${horizontalView} at ${viewType}`,
-      background: bgColorName,
+      subject_description: `${objectColorName} ${objectName}, ${objectOrientation}, ${subjectGeometry ? `${subjectGeometry}, ` : ""}${subjectMaterials ? `${subjectMaterials}, ` : ""}isolated on ${backdrop.name}, viewed from ${horizontalView} at ${viewType}`,
+      background: backdrop.name,
       environment: "studio"
     },
 
@@ -310,21 +380,30 @@ const buildFiboJsonParams = (
     camera: {
       angle: viewType,
       shot_type: distance < 3 ? "close_up" : distance < 5 ? "medium_shot" : distance < 8 ? "full_shot" : "wide_shot",
-      position: horizontalView
+      position: horizontalView,
+      ...(cameraData.lens && {
+        lens: cameraData.lens.description,
+        focal_length: `${cameraData.lens.focalLength}mm`,
+        ...(cameraData.lens.depthOfField && {
+          aperture: `f/${cameraData.lens.aperture}`,
+          depth_of_field: cameraData.lens.depthOfField
+        })
+      }),
+      ...(cameraData.projection === 'orthographic' && { projection: 'orthographic' })
     },
 
     // Lighting control
     lighting: {
-      type: config.lighting.keyLightIntensity > 1.5 ? "dramatic" : config.lighting.keyLightIntensity < 0.5 ? "soft" : "studio",
+      type: keyLightIntensity > 1.5 ? "dramatic" : keyLightIntensity < 0.5 ? "soft" : "studio",
       direction: "front",
-      intensity: config.lighting.keyLightIntensity > 1 ? "high" : "medium",
+      intensity: keyLightIntensity > 1 ? "high" : "medium",
       color_temperature: "neutral"
     },
 
     // Color palette
     color_palette: {
       primary: mainObject?.color || "#ffffff",
-      background: config.environment.backgroundColor,
+      background: backdrop.color,
       secondary: config.environment.floorColor,
       mood: style === 'professional' ? "vibrant" : "neutral"
     },
@@ -332,7 +411,11 @@ const buildFiboJsonParams = (
     // Composition
     composition: {
       framing: "centered",
-      orientation: "square"
+      orientation: cameraData.output?.orientation ?? "square",
+      ...(cameraData.output && {
+        aspect_ratio: cameraData.output.aspectRatio,
+        resolution: `${cameraData.output.width}x${cameraData.output.height}`
+      })
     },
 
     // Style
@@ -356,10 +439,14 @@ export const generateFiboImageFromReference = async (
   style: 'plain' | 'professional',
   cameraContext: string,
   variationPrompt?: string,
-  _consistencySettings?: ConsistencySettings
+  _consistencySettings?: ConsistencySettings,
+  seed?: number
 ): Promise<string> => {
   // Build FIBO JSON parameters
-  const fiboParams = buildFiboJsonParams(config, allObjects, style, cameraContext, variationPrompt);
+  const fiboParams: FiboJsonParams = {
+    ...buildFiboJsonParams(config, allObjects, style, cameraContext, variationPrompt),
+    ...(seed != null && { seed })
+  };
 
   console.log("=== FIBO JSON-Native Generation ===");
   console.log("Objects:", allObjects.map(o => o.name));
@@ -399,7 +486,9 @@ export const generateFiboImageFromReference = async (
         body: JSON.stringify({
           prompt: fiboParams.prompt,
           num_results: 1,
-          sync: true
+          sync: true,
+          ...(fiboParams.aspect_ratio && { aspect_ratio: fiboParams.aspect_ratio }),
+          ...(fiboParams.seed != null && { seed: fiboParams.seed })
         })
       });
 
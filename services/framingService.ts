@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { StudioCamera } from '../types';
+import { ObjectBounds } from './layoutService';
+import { getFocusDistanceTo, isOrthographic, getOrthographicZoom } from './cameraService';
+
+/**
+ * Framing Service - Fit the studio camera to a subject
+ *
+ * The camera aims at the center of the subject's bounds, then either dollies along
+ * its viewing direction or zooms (changes fov from where it stands) until the bounds
+ * span the target share of the frame on their tighter axis. Orthographic cameras
+ * have no perspective to dolly through, so they always fit by zoom.
+ */
+
+export type FramingMode = 'dolly' | 'zoom';
+
+export interface FramingSettings {
+  fill: number; // Share of the frame the subject spans, 0-1
+  mode: FramingMode;
+}
+
+export const DEFAULT_FRAMING: FramingSettings = { fill: 0.8, mode: 'dolly' };
+export const FRAME_FILL_PRESETS = [0.6, 0.7, 0.8, 0.9];
+
+// Zooming stops at these field of view limits and dollies the rest of the way
+const MIN_FOV = 5;
+const MAX_FOV = 120;
+const MIN_DISTANCE = 0.2;
+
+const roundVector = (v: THREE.Vector3): [number, number, number] =>
+  [Math.round(v.x * 100) / 100, Math.round(v.y * 100) / 100, Math.round(v.z * 100) / 100];
+
+// Union of the bounds of all given objects
+export const getSubjectBounds = (bounds: ObjectBounds): THREE.Box3 =>
+  Object.values(bounds).reduce((subject, box) => subject.union(box), new THREE.Box3());
+
+// Corners of the bounds relative to their center, in the camera's right/up/forward axes
+const getViewCorners = (bounds: THREE.Box3, forward: THREE.Vector3) => {
+  const worldUp = Math.abs(forward.y) > 0.999 ? new THREE.Vector3(0, 0, -1) : new THREE.Vector3(0, 1, 0);
+  const right = new THREE.Vector3().crossVectors(forward, worldUp).normalize();
+  const up = new THREE.Vector3().crossVectors(right, forward);
+  const center = bounds.getCenter(new THREE.Vector3());
+
+  return Array.from({ length: 8 }, (_, i) => {
+    const v = new THREE.Vector3(
+      i & 1 ? bounds.max.x : bounds.min.x,
+      i & 2 ? bounds.max.y : bounds.min.y,
+      i & 4 ? bounds.max.z : bounds.min.z
+    ).sub(center);
+    return { x: Math.abs(v.dot(right)), y: Math.abs(v.dot(up)), z: v.dot(forward) };
+  });
+};
+
+// Distance from the center that fits every corner inside the filled part of the frame
+const getFitDistance = (corners: ReturnType<typeof getViewCorners>, tanHalfFov: number, aspect: number, fill: number) =>
+  Math.max(MIN_DISTANCE, ...corners.map(({ x, y, z }) =>
+    Math.max(x / (fill * tanHalfFov * aspect), y / (fill * tanHalfFov)) - z
+  ));
+
+/**
+ * Camera updates that frame the subject at the target fill. Returns null for empty bounds.
+ * A camera with depth of field refocuses on the subject.
+ */
+export const frameCamera = (
+  camera: StudioCamera,
+  bounds: THREE.Box3,
+  aspect: number,
+  { fill, mode }: FramingSettings
+): Partial<StudioCamera> | null => {
+  if (bounds.isEmpty()) return null;
+
+  const center = bounds.getCenter(new THREE.Vector3());
+  const position = new THREE.Vector3(...camera.position);
+
+  if (isOrthographic(camera)) {
+    const axis = new THREE.Vector3(...camera.lookAt).sub(position);
+    const forward = axis.lengthSq() > 0 ? axis.clone().normalize() : new THREE.Vector3(0, 0, -1);
+    const corners = getViewCorners(bounds, forward);
+    const frameHeight = Math.max(...corners.map(({ x, y }) => Math.max(y, x / aspect))) * 2 / fill;
+    // Stay as far back as before, but in front of the whole subject
+    const distance = Math.max(axis.length(), ...corners.map(c => MIN_DISTANCE - c.z));
+    return {
+      position: roundVector(center.clone().addScaledVector(forward, -distance)),
+      lookAt: roundVector(center),
+      zoom: getOrthographicZoom(Math.max(frameHeight, 0.01))
+    };
+  }
+
+  let fov = camera.fov;
+  let forward: THREE.Vector3;
+  let distance: number | null = null;
+
+  if (mode === 'zoom') {
+    // Stay put and turn to the subject; zoom as far as the lens allows
+    forward = center.clone().sub(position).normalize();
+    const standOff = position.distanceTo(center);
+    const corners = getViewCorners(bounds, forward);
+    if (forward.lengthSq() > 0 && corners.every(c => standOff + c.z > MIN_DISTANCE)) {
+      const tanHalfFov = Math.max(...corners.map(({ x, y, z }) =>
+        Math.max(x / aspect, y) / ((standOff + z) * fill)
+      ));
+      const zoomed = THREE.MathUtils.radToDeg(2 * Math.atan(tanHalfFov));
+      fov = Math.round(THREE.MathUtils.clamp(zoomed, MIN_FOV, MAX_FOV) * 10) / 10;
+      if (Math.abs(fov - zoomed) < 0.1) distance = standOff;
+    }
+  } else {
+    forward = new THREE.Vector3(...camera.lookAt).sub(position).normalize();
+  }
+  if (forward.lengthSq() === 0) forward = new THREE.Vector3(0, 0, -1);
+
+  if (distance === null) {
+    const tanHalfFov = Math.tan(THREE.MathUtils.degToRad(fov) / 2);
+    distance = getFitDistance(getViewCorners(bounds, forward), tanHalfFov, aspect, fill);
+  }
+
+  const framed: StudioCamera = {
+    ...camera,
+    position: roundVector(center.clone().addScaledVector(forward, -distance)),
+    lookAt: roundVector(center),
+    fov
+  };
+  return {
+    position: framed.position,
+    lookAt: framed.lookAt,
+    ...(fov !== camera.fov && { fov }),
+    ...(camera.depthOfField && { focusDistance: getFocusDistanceTo(framed, framed.lookAt) })
+  };
+};
@@ -1,5 +1,11 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { StudioConfig, StudioObject, ConsistencySettings } from "../types";
+import { StudioConfig, StudioObject, StudioEnvironment, ConsistencySettings } from "../types";
+import { DEFAULT_HDRI, DEFAULT_CYCLORAMA } from "../constants";
+import { describeObjectForPrompt } from "./modelService";
+import { describeObjectMaterials } from "./materialService";
+import { migrateLighting } from "./lightingService";
+import { applyPlatformUpdate } from "./setPieceService";
+import { ORTHOGRAPHIC_PROMPT } from "./cameraService";
 
 // Helper to get safe API client
 const getClient = () => {
@@ -20,6 +26,19 @@ export interface StudioUpdateResult {
 }
 
 // 1. Prompt Interpreter & 3D Modeler
+// A new preset from the director replaces any uploaded HDRI; other settings merge over it.
+// The director describes a single platform, which is applied to the set pieces
+const mergeEnvironment = (current: StudioEnvironment, update?: Partial<StudioEnvironment>): StudioEnvironment => {
+  if (!update) return current;
+  const { platformType, platformColor, platformMaterial, ...rest } = update;
+  const hdri = update.hdri && current.hdri && update.hdri.preset && update.hdri.preset !== current.hdri.preset
+    ? { ...current.hdri, ...update.hdri, customUrl: undefined, customFileName: undefined }
+    : { ...DEFAULT_HDRI, ...current.hdri, ...update.hdri };
+  const setPieces = applyPlatformUpdate(current.setPieces ?? [], { platformType, platformColor, platformMaterial });
+  const cyclorama = { ...DEFAULT_CYCLORAMA, ...current.cyclorama, ...update.cyclorama };
+  return { ...current, ...rest, setPieces, hdri, cyclorama };
+};
+
 export const translatePromptToStudioConfig = async (
   currentConfig: StudioConfig,
   currentObject: StudioObject,
@@ -35,18 +54,28 @@ export const translatePromptToStudioConfig = async (
         properties: {
           ambientIntensity: { type: Type.NUMBER },
           ambientColor: { type: Type.STRING },
-          keyLightIntensity: { type: Type.NUMBER },
-          keyLightColor: { type: Type.STRING },
-          keyLightPosition: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          fillLightIntensity: { type: Type.NUMBER },
-          fillLightColor: { type: Type.STRING },
-          fillLightPosition: { type: Type.ARRAY, items: { type: Type.NUMBER } },
-          rimLightIntensity: { type: Type.NUMBER },
-          rimLightColor: { type: Type.STRING },
-          rimLightPosition: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          lights: {
+            type: Type.ARRAY,
+            description: "The full light rig, typically 2-6 named lights. The product sits near the origin.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING, description: "E.g. Key Light, Fill Light, Rim Light, Top Softbox" },
+                type: { type: Type.STRING, enum: ['directional', 'point', 'spot', 'rect_area'] },
+                position: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "[x,y,z]" },
+                target: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Aim point [x,y,z], usually [0,0,0]" },
+                color: { type: Type.STRING, description: "Hex color" },
+                intensity: { type: Type.NUMBER },
+                angle: { type: Type.NUMBER, description: "spot: cone angle in radians" },
+                castShadow: { type: Type.BOOLEAN },
+                width: { type: Type.NUMBER, description: "rect_area: softbox width" },
+                height: { type: Type.NUMBER, description: "rect_area: softbox height" }
+              },
+              required: ["name", "type", "position", "color", "intensity"]
+            }
+          }
         },
-        // Added fillLightPosition and rimLightPosition to required
-        required: ["ambientIntensity", "keyLightIntensity", "keyLightPosition", "fillLightIntensity", "fillLightPosition", "rimLightIntensity", "rimLightPosition"]
+        required: ["ambientIntensity", "lights"]
       },
       environment: {
         type: Type.OBJECT,
@@ -54,11 +83,32 @@ export const translatePromptToStudioConfig = async (
           backgroundColor: { type: Type.STRING },
           floorRoughness: { type: Type.NUMBER },
           floorColor: { type: Type.STRING },
-          platformType: { type: Type.STRING, enum: ['none', 'cylinder', 'cube', 'round_table'] },
+          platformType: { type: Type.STRING, enum: ['none', 'cylinder', 'cube', 'round_table'], description: "Only set when the user asks for a different product platform" },
           platformColor: { type: Type.STRING },
-          platformMaterial: { type: Type.STRING, enum: ['matte', 'glossy', 'wood', 'marble', 'metal'] },
+          platformMaterial: { type: Type.STRING, enum: ['matte', 'glossy', 'wood', 'marble', 'metal'], description: "wood, marble and metal get real grain/veining" },
+          hdri: {
+            type: Type.OBJECT,
+            description: "Environment map used for reflections and optionally as the backdrop",
+            properties: {
+              preset: { type: Type.STRING, enum: ['studio', 'apartment', 'city', 'dawn', 'forest', 'lobby', 'night', 'park', 'sunset', 'warehouse'] },
+              rotation: { type: Type.NUMBER, description: "Y rotation in radians" },
+              intensity: { type: Type.NUMBER, description: "Reflection/IBL strength, 1 = neutral" },
+              blur: { type: Type.NUMBER, description: "Background blurriness 0-1" },
+              showBackground: { type: Type.BOOLEAN, description: "Show the HDRI behind the product instead of a solid color" }
+            }
+          },
+          cyclorama: {
+            type: Type.OBJECT,
+            description: "Seamless curved floor-to-wall backdrop (infinity cove)",
+            properties: {
+              enabled: { type: Type.BOOLEAN },
+              color: { type: Type.STRING },
+              gradient: { type: Type.BOOLEAN, description: "Fade the wall towards gradientColor at the top" },
+              gradientColor: { type: Type.STRING }
+            }
+          }
         },
-        required: ["backgroundColor", "floorRoughness", "floorColor", "platformType", "platformColor", "platformMaterial"]
+        required: ["backgroundColor", "floorRoughness", "floorColor"]
       },
       moodDescription: { type: Type.STRING },
       objectChange: {
@@ -73,13 +123,30 @@ export const translatePromptToStudioConfig = async (
             items: {
               type: Type.OBJECT,
               properties: {
-                shape: { type: Type.STRING, enum: ["cube", "sphere", "cylinder", "cone", "torus"] },
+                shape: { type: Type.STRING, enum: ["cube", "sphere", "cylinder", "cone", "torus", "capsule", "rounded_box", "tapered_cylinder", "lathe", "arc"] },
                 position: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Relative position [x,y,z]" },
                 rotation: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Rotation in radians [x,y,z]" },
                 scale: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Scale [x,y,z]" },
                 color: { type: Type.STRING, description: "Hex color" },
                 roughness: { type: Type.NUMBER },
-                metalness: { type: Type.NUMBER }
+                metalness: { type: Type.NUMBER },
+                transmission: { type: Type.NUMBER, description: "0-1, use ~1 with low roughness for clear glass" },
+                clearcoat: { type: Type.NUMBER, description: "0-1, lacquer/car-paint gloss layer" },
+                emissive: { type: Type.STRING, description: "Hex glow color for screens, LEDs, bulbs" },
+                emissiveIntensity: { type: Type.NUMBER, description: "Glow strength, 0 = off" },
+                // Parametric shape settings, all relative to a unit-sized part before scale
+                radius: { type: Type.NUMBER, description: "capsule: end cap radius (0-0.5)" },
+                length: { type: Type.NUMBER, description: "capsule: straight section length" },
+                cornerRadius: { type: Type.NUMBER, description: "rounded_box: edge radius (0-0.5)" },
+                radiusTop: { type: Type.NUMBER, description: "tapered_cylinder: top radius" },
+                radiusBottom: { type: Type.NUMBER, description: "tapered_cylinder: bottom radius" },
+                profile: {
+                  type: Type.ARRAY,
+                  description: "lathe: [radius, height] points from bottom to top, revolved around Y. Heights within -0.5..0.5",
+                  items: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+                },
+                arc: { type: Type.NUMBER, description: "arc: sweep angle in radians (partial torus)" },
+                tube: { type: Type.NUMBER, description: "arc: tube radius" }
               },
               required: ["shape", "position", "rotation", "scale", "color"]
             }
@@ -99,8 +166,13 @@ export const translatePromptToStudioConfig = async (
     
     TASK 1: Studio Lighting & Environment
     - Translate the user's mood into precise lighting/environment settings.
+    - Return the complete light rig as a list of named lights; it replaces the current rig.
+    - Use rect_area lights for softboxes and strip lights, spot lights for accents and rims,
+      directional lights for sun-like key lights, point lights for small practical sources.
+    - Only one or two lights should cast shadows.
+    - Enable the cyclorama for seamless catalog/e-commerce sweeps; a gradient suits moodier hero shots.
     - "Cinematic" = High contrast, strong rim light.
-    - "Soft" = High ambient, low contrast.
+    - "Soft" = High ambient, low contrast, large rect_area softboxes.
     
     TASK 2: 3D Object Construction (Constructive Solid Geometry)
     - Build DETAILED realistic 3D silhouettes using 5-20 primitives.
@@ -109,6 +181,12 @@ export const translatePromptToStudioConfig = async (
       - Use **Toruses** for rings, rims, tires, cushions.
       - Use **Spheres** for bulbs, joints, rounded caps.
       - Use **Cubes** (scaled thin) for panels, screens, bases.
+      - Use **Rounded Boxes** (cornerRadius) for phones, remotes, soap bars, compacts.
+      - Use **Capsules** for pens, tubes of cream, handles with rounded ends.
+      - Use **Tapered Cylinders** (radiusTop/radiusBottom) for cups, lipstick bullets, lamp shades.
+      - Use **Lathe** (profile curve) for bottles, vases, perfume flasks, light bulbs.
+      - Use **Arcs** (partial torus, arc in radians) for handles, headband arches, hooks.
+      - Give glass parts transmission ~1 and low roughness, glossy paint clearcoat, and screens/LEDs an emissive color.
     
     - **REALISM GOAL**: The object blockout must look convincing in the viewport. Don't be lazy with 2 cubes. 
       - A camera needs: Body, Lens Barrel, Lens Glass, Flash, Shutter Button, Grip, Viewfinder. (7+ parts)
@@ -146,22 +224,30 @@ export const translatePromptToStudioConfig = async (
       
       const result: StudioUpdateResult = {
         config: {
-          // Merge with current config to prevent missing fields (e.g. fillLightPosition) from crashing the app
-          lighting: { ...currentConfig.lighting, ...(parsed.lighting || {}) },
-          environment: { ...currentConfig.environment, ...(parsed.environment || {}) },
+          // Cameras and other settings the director doesn't touch carry over
+          ...currentConfig,
+          // Fill in ids and defaults so partial light entries can't crash the app
+          lighting: migrateLighting({
+            ...currentConfig.lighting,
+            ...(parsed.lighting || {})
+          }),
+          environment: mergeEnvironment(currentConfig.environment, parsed.environment),
           moodDescription: parsed.moodDescription || currentConfig.moodDescription
         }
       };
 
       if (parsed.objectChange && parsed.objectChange.action !== 'NONE') {
         const isCreate = parsed.objectChange.action === 'CREATE';
-        const hasParts = parsed.objectChange.parts && parsed.objectChange.parts.length > 0;
+        // Groups only hold their children, so updates never rebuild them from parts
+        const isGroup = !isCreate && currentObject.type === 'group';
+        const hasParts = !isGroup && parsed.objectChange.parts && parsed.objectChange.parts.length > 0;
         
         result.objectAction = {
           type: parsed.objectChange.action,
           properties: {
             name: parsed.objectChange.name || (isCreate ? 'New Object' : currentObject.name),
-            type: hasParts ? 'compound' : 'primitive',
+            // Imported models keep their asset unless the AI rebuilds them from parts; groups keep theirs
+            type: hasParts ? 'compound' : (!isCreate && (currentObject.type === 'mesh' || isGroup) ? currentObject.type : 'primitive'),
             position: parsed.objectChange.position || currentObject.position,
             rotation: parsed.objectChange.rotation || currentObject.rotation,
             scale: parsed.objectChange.scale || currentObject.scale,
@@ -184,20 +270,43 @@ export const translatePromptToStudioConfig = async (
   }
 };
 
+// Lens, projection and output frame hints from the studio camera context, if it has them
+const getCameraHints = (cameraContext: string): { lens?: string; orthographic?: boolean; output?: { width: number; height: number; aspectRatio: string } } => {
+  try {
+    const { lens, projection, output } = JSON.parse(cameraContext);
+    return { lens: lens?.description, orthographic: projection === 'orthographic', output };
+  } catch {
+    return {};
+  }
+};
+
 // 2. Internal image generation helper
 const generateImageInternal = async (
   config: StudioConfig,
   allObjects: StudioObject[],
   snapshotBase64: string,
   style: 'plain' | 'professional',
+  cameraContext: string,
   variationPrompt?: string
 ): Promise<string> => {
   const ai = getClient();
   const base64Data = snapshotBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
   const objectNames = variationPrompt || allObjects.map(o => o.name).join(", ");
-  const bgColor = config.environment.backgroundColor;
-  const floorColor = config.environment.floorColor;
+  const meshDescriptions = allObjects.filter(o => o.type === 'mesh').map(describeObjectForPrompt);
+  const materialDescriptions = allObjects.map(describeObjectMaterials).filter(Boolean);
+  const { cyclorama, hdri } = config.environment;
+  const backdrop = cyclorama?.enabled
+    ? `${cyclorama.color}${cyclorama.gradient ? ` to ${cyclorama.gradientColor} gradient` : ''} cyclorama sweep`
+    : hdri?.showBackground
+      ? `${hdri.customUrl ? 'custom' : hdri.preset} HDRI environment behind the ${config.environment.floorColor} floor`
+      : `${config.environment.backgroundColor} background and ${config.environment.floorColor} floor`;
+  const { lens, orthographic, output } = getCameraHints(cameraContext);
+  const cameraRules = [
+    output ? `Output a ${output.width}x${output.height} (${output.aspectRatio}) image with the same frame as the render` : '',
+    lens ? `Photograph it as if shot with this lens: ${lens} - keep the focus and blur of the render` : '',
+    orthographic ? `Keep the projection ${ORTHOGRAPHIC_PROMPT} - parallel edges stay parallel, with no foreshortening or vanishing points` : ''
+  ].filter(Boolean);
 
   const prompt = `You are a photorealistic texture artist. Your ONLY job is to add realistic materials and textures to this 3D render.
 
@@ -205,9 +314,9 @@ ABSOLUTE RULES - DO NOT BREAK THESE:
 1. DO NOT change the camera angle - keep EXACTLY the same viewpoint
 2. DO NOT move or reposition any object - keep EXACTLY the same position
 3. DO NOT add ANY new objects - only the ${objectNames} should be visible
-4. DO NOT change the background - keep the ${bgColor} background and ${floorColor} floor
+4. DO NOT change the background - keep the ${backdrop}
 5. DO NOT change the composition or framing
-
+${cameraRules.map((rule, i) => `${6 + i}. ${rule}\n`).join('')}
 YOUR ONLY TASK:
 - Take the ${objectNames} shown in this 3D render
 - Apply photorealistic materials, textures, and surface details to it
@@ -215,7 +324,7 @@ YOUR ONLY TASK:
 - Keep everything else IDENTICAL
 
 The object is: ${objectNames}
-Style: ${style === 'professional' ? 'Professional product photography, 8K resolution, studio lighting, commercial quality' : 'Clean product photo'}
+${meshDescriptions.length > 0 ? `Imported product geometry (keep these proportions): ${meshDescriptions.join('; ')}\n` : ''}${materialDescriptions.length > 0 ? `Materials: ${materialDescriptions.join('; ')}\n` : ''}Style: ${style === 'professional' ? 'Professional product photography, 8K resolution, studio lighting, commercial quality' : 'Clean product photo'}
 
 Think of this as "upgrading the materials" on a 3D model - the shape, position, angle, and background stay EXACTLY the same, only the surface becomes photorealistic.`;
 
@@ -256,13 +365,14 @@ export const generateStudioImage = async (
   style: 'plain' | 'professional',
   cameraContext: string,
   variationPrompt?: string,
-  consistencySettings?: ConsistencySettings
+  consistencySettings?: ConsistencySettings,
+  seed?: number // Shared by related shots such as the frames of a spin set
 ): Promise<string> => {
   // Try primary method first, silently fall back to FIBO
   try {
     const apiKey = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.API_KEY;
     if (apiKey) {
-      return await generateImageInternal(config, allObjects, snapshotBase64, style, variationPrompt);
+      return await generateImageInternal(config, allObjects, snapshotBase64, style, cameraContext, variationPrompt);
     }
   } catch {
     // Silent fallback
@@ -276,7 +386,8 @@ export const generateStudioImage = async (
     style,
     cameraContext,
     variationPrompt,
-    consistencySettings
+    consistencySettings,
+    seed
   );
 };
 
@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { StudioEnvironment, StudioObject } from '../types';
+import { getTopLevelIds, getWorldMatrix } from './sceneGraph';
+import { getSurfaceHeight } from './setPieceService';
+
+/**
+ * Layout Service - Drop-to-surface, alignment and distribution
+ *
+ * Commands work on world-space bounding boxes measured in the viewport and
+ * return per-object position updates in each object's local (parent) space.
+ */
+
+export type LayoutAxis = 0 | 1 | 2; // x, y, z
+export type AlignMode = 'min' | 'center' | 'max';
+export type ObjectBounds = Record<string, THREE.Box3>;
+type PositionUpdates = Record<string, Pick<StudioObject, 'position'>>;
+
+// World-space bounds of a rendered object and its children, ignoring invisible helpers like selection hitboxes
+export const measureObject = (node: THREE.Object3D): THREE.Box3 => {
+  const box = new THREE.Box3();
+  node.updateWorldMatrix(true, true);
+  const visit = (current: THREE.Object3D) => {
+    if (!current.visible) return;
+    const mesh = current as THREE.Mesh;
+    if (mesh.isMesh && mesh.geometry) {
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      box.union(mesh.geometry.boundingBox!.clone().applyMatrix4(mesh.matrixWorld));
+    }
+    current.children.forEach(visit);
+  };
+  visit(node);
+  return box;
+};
+
+// Move an object by a world-space offset, expressed in its parent's space
+const offsetPosition = (objects: StudioObject[], object: StudioObject, worldDelta: THREE.Vector3): [number, number, number] => {
+  const parentLinear = new THREE.Matrix3().setFromMatrix4(getWorldMatrix(objects, object.parentId));
+  const local = worldDelta.clone().applyMatrix3(parentLinear.invert());
+  return [object.position[0] + local.x, object.position[1] + local.y, object.position[2] + local.z];
+};
+
+const buildUpdates = (objects: StudioObject[], deltas: Record<string, THREE.Vector3>): PositionUpdates => {
+  const updates: PositionUpdates = {};
+  Object.entries(deltas).forEach(([id, delta]) => {
+    const object = objects.find(o => o.id === id);
+    if (object && delta.lengthSq() > 0) updates[id] = { position: offsetPosition(objects, object, delta) };
+  });
+  return updates;
+};
+
+const getLayoutIds = (objects: StudioObject[], ids: string[], bounds: ObjectBounds) =>
+  getTopLevelIds(objects, ids).filter(id => bounds[id] && !bounds[id].isEmpty());
+
+/**
+ * Rest each object's bounding box on the floor or the set piece top below it
+ */
+export const dropToSurface = (
+  objects: StudioObject[],
+  ids: string[],
+  bounds: ObjectBounds,
+  environment: StudioEnvironment
+): PositionUpdates => {
+  const deltas: Record<string, THREE.Vector3> = {};
+  getLayoutIds(objects, ids, bounds).forEach(id => {
+    const box = bounds[id];
+    const center = box.getCenter(new THREE.Vector3());
+    deltas[id] = new THREE.Vector3(0, getSurfaceHeight(environment, center.x, center.z) - box.min.y, 0);
+  });
+  return buildUpdates(objects, deltas);
+};
+
+/**
+ * Line objects up on one side (or the center) of the selection's combined bounds
+ */
+export const alignObjects = (
+  objects: StudioObject[],
+  ids: string[],
+  bounds: ObjectBounds,
+  axis: LayoutAxis,
+  mode: AlignMode
+): PositionUpdates => {
+  const targets = getLayoutIds(objects, ids, bounds);
+  if (targets.length < 2) return {};
+
+  const selection = new THREE.Box3();
+  targets.forEach(id => selection.union(bounds[id]));
+  const edge = (box: THREE.Box3) =>
+    mode === 'min' ? box.min.getComponent(axis)
+      : mode === 'max' ? box.max.getComponent(axis)
+        : (box.min.getComponent(axis) + box.max.getComponent(axis)) / 2;
+  const goal = edge(selection);
+
+  const deltas: Record<string, THREE.Vector3> = {};
+  targets.forEach(id => {
+    deltas[id] = new THREE.Vector3().setComponent(axis, goal - edge(bounds[id]));
+  });
+  return buildUpdates(objects, deltas);
+};
+
+/**
+ * Space objects so the gaps between neighbouring bounding boxes are equal;
+ * the outermost objects stay where they are
+ */
+export const distributeObjects = (
+  objects: StudioObject[],
+  ids: string[],
+  bounds: ObjectBounds,
+  axis: LayoutAxis
+): PositionUpdates => {
+  const targets = getLayoutIds(objects, ids, bounds);
+  if (targets.length < 3) return {};
+
+  const sorted = [...targets].sort((a, b) =>
+    bounds[a].getCenter(new THREE.Vector3()).getComponent(axis) - bounds[b].getCenter(new THREE.Vector3()).getComponent(axis)
+  );
+  const size = (id: string) => bounds[id].max.getComponent(axis) - bounds[id].min.getComponent(axis);
+  const start = bounds[sorted[0]].min.getComponent(axis);
+  const end = bounds[sorted[sorted.length - 1]].max.getComponent(axis);
+  const totalSize = sorted.reduce((sum, id) => sum + size(id), 0);
+  const gap = (end - start - totalSize) / (sorted.length - 1);
+
+  const deltas: Record<string, THREE.Vector3> = {};
+  let cursor = start;
+  sorted.forEach(id => {
+    deltas[id] = new THREE.Vector3().setComponent(axis, cursor - bounds[id].min.getComponent(axis));
+    cursor += size(id) + gap;
+  });
+  return buildUpdates(objects, deltas);
+};
@@ -0,0 +1,86 @@
+import { v4 as uuidv4 } from 'uuid';
+import { StudioLight, StudioLightType, StudioLighting } from '../types';
+
+/**
+ * Lighting Service - Studio light rigs
+ *
+ * Lighting is a list of named lights plus ambient fill. Projects saved before light
+ * rigs existed store a fixed key/fill/rim setup, which is converted on load.
+ */
+
+export const LIGHT_TYPE_LABELS: Record<StudioLightType, string> = {
+  directional: 'Directional',
+  point: 'Point',
+  spot: 'Spot',
+  rect_area: 'Rect Area'
+};
+
+const LIGHT_TYPE_DEFAULTS: Record<StudioLightType, Omit<StudioLight, 'id' | 'name' | 'type'>> = {
+  directional: { position: [5, 5, 5], target: [0, 0, 0], color: '#ffffff', intensity: 1.0, castShadow: true },
+  point: { position: [-3, 3, 3], target: [0, 0, 0], color: '#ffffff', intensity: 1.0, castShadow: false },
+  spot: { position: [0, 5, -5], target: [0, 0, 0], color: '#ffffff', intensity: 1.0, angle: 0.5, castShadow: true },
+  rect_area: { position: [0, 3, 4], target: [0, 0, 0], color: '#ffffff', intensity: 3.0, castShadow: false, width: 2, height: 2 }
+};
+
+export const createLight = (type: StudioLightType, overrides: Partial<StudioLight> = {}): StudioLight => ({
+  id: uuidv4(),
+  name: `${LIGHT_TYPE_LABELS[type]} Light`,
+  type,
+  ...LIGHT_TYPE_DEFAULTS[type],
+  ...overrides
+});
+
+/**
+ * Classic key/fill/rim setup used for new projects and mood presets
+ */
+export const createThreePointRig = (colors: { key?: string; fill?: string; rim?: string } = {}): StudioLight[] => [
+  createLight('directional', { name: 'Key Light', position: [5, 5, 5], color: colors.key || '#ffffff', intensity: 1.0 }),
+  createLight('point', { name: 'Fill Light', position: [-5, 2, 5], color: colors.fill || '#e0e0e0', intensity: 0.5 }),
+  createLight('spot', { name: 'Rim Light', position: [0, 5, -5], color: colors.rim || '#ffffff', intensity: 0.2, castShadow: false })
+];
+
+// Fixed rig fields stored by projects created before light lists
+interface LegacyStudioLighting {
+  keyLightIntensity?: number;
+  keyLightColor?: string;
+  keyLightPosition?: [number, number, number];
+  fillLightIntensity?: number;
+  fillLightColor?: string;
+  fillLightPosition?: [number, number, number];
+  rimLightIntensity?: number;
+  rimLightColor?: string;
+  rimLightPosition?: [number, number, number];
+}
+
+/**
+ * Bring stored or AI-returned lighting into the current shape, converting the
+ * legacy key/fill/rim fields and filling in ids and defaults on every light
+ */
+export const migrateLighting = (lighting?: Partial<StudioLighting> & LegacyStudioLighting): StudioLighting => {
+  const source = lighting || {};
+  let lights: StudioLight[];
+
+  if (Array.isArray(source.lights)) {
+    lights = source.lights.map(light => {
+      const type = light.type in LIGHT_TYPE_DEFAULTS ? light.type : 'point';
+      return createLight(type, { ...light, type, id: light.id || uuidv4() });
+    });
+  } else {
+    const [key, fill, rim] = createThreePointRig();
+    lights = [
+      { ...key, position: source.keyLightPosition ?? key.position, color: source.keyLightColor || key.color, intensity: source.keyLightIntensity ?? key.intensity },
+      { ...fill, position: source.fillLightPosition ?? fill.position, color: source.fillLightColor || fill.color, intensity: source.fillLightIntensity ?? fill.intensity },
+      { ...rim, position: source.rimLightPosition ?? rim.position, color: source.rimLightColor || rim.color, intensity: source.rimLightIntensity ?? rim.intensity }
+    ];
+  }
+
+  return {
+    ambientIntensity: source.ambientIntensity ?? 0.3,
+    ambientColor: source.ambientColor || '#ffffff',
+    lights
+  };
+};
+
+// The strongest light in the rig, used to describe the overall lighting mood
+export const getKeyLight = (lighting: StudioLighting): StudioLight | undefined =>
+  lighting.lights.reduce<StudioLight | undefined>((best, light) => (!best || light.intensity > best.intensity ? light : best), undefined);
@@ -0,0 +1,34 @@
+import { PhysicalMaterialProps, StudioObject } from '../types';
+
+/**
+ * Material Service - Describes object materials for generation prompts
+ *
+ * The 3D snapshot cannot convey refraction or glow reliably, so advanced
+ * physical material settings are spelled out in words for the generator.
+ */
+
+type MaterialLike = PhysicalMaterialProps & { metalness?: number; roughness?: number };
+
+const isBlack = (color?: string) => !color || /^#0{3}(0{3})?$/i.test(color);
+
+export const describeMaterial = (material: MaterialLike): string[] => {
+  const traits: string[] = [];
+  if ((material.transmission ?? 0) >= 0.5) {
+    traits.push((material.roughness ?? 0.5) > 0.4 ? 'frosted translucent glass' : 'transparent glass');
+  }
+  if ((material.clearcoat ?? 0) >= 0.5) traits.push('glossy clear-coated finish');
+  if ((material.sheen ?? 0) >= 0.5) traits.push('soft fabric sheen');
+  if ((material.emissiveIntensity ?? 0) > 0 && !isBlack(material.emissive)) traits.push('glowing');
+  return traits;
+};
+
+/**
+ * Summarize the notable materials of an object and its parts, e.g. "Perfume: transparent glass, glowing"
+ */
+export const describeObjectMaterials = (object: StudioObject): string => {
+  const sources: MaterialLike[] = object.type === 'compound' && object.parts?.length
+    ? object.parts
+    : [object];
+  const traits = Array.from(new Set(sources.flatMap(describeMaterial)));
+  return traits.length > 0 ? `${object.name}: ${traits.join(', ')}` : '';
+};
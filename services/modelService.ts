@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { StudioObject } from '../types';
+
+/**
+ * Model Service - Imported glTF/GLB product assets
+ *
+ * Imported models are stored on the object as data URLs so they persist with
+ * the project like generated images do. Every model is normalized so that its
+ * largest dimension matches the built-in primitives and its base rests on the
+ * object's origin.
+ */
+
+// Largest dimension of a normalized model, matches the 1.2 unit primitive cube
+export const MESH_TARGET_SIZE = 1.2;
+
+export const MODEL_FILE_ACCEPT = '.glb,.gltf,model/gltf-binary,model/gltf+json';
+
+export interface ModelNormalization {
+  scale: number;
+  offset: [number, number, number];
+  size: [number, number, number];
+}
+
+/**
+ * Compute the uniform scale and offset that center a model on X/Z,
+ * place its lowest point at y = 0 and fit it into MESH_TARGET_SIZE
+ */
+export const computeModelNormalization = (model: THREE.Object3D): ModelNormalization => {
+  const box = new THREE.Box3().setFromObject(model);
+  if (box.isEmpty()) {
+    return { scale: 1, offset: [0, 0, 0], size: [0, 0, 0] };
+  }
+
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const scale = maxDim > 0 ? MESH_TARGET_SIZE / maxDim : 1;
+
+  return {
+    scale,
+    offset: [-center.x, -box.min.y, -center.z],
+    size: [size.x * scale, size.y * scale, size.z * scale]
+  };
+};
+
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Load a glTF/GLB asset once to validate it and measure its normalized bounds
+ */
+export const loadModelBounds = async (url: string): Promise<[number, number, number]> => {
+  const gltf = await new GLTFLoader().loadAsync(url);
+  const { size } = computeModelNormalization(gltf.scene);
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return [round(size[0]), round(size[1]), round(size[2])];
+};
+
+/**
+ * Describe an object for generation prompts. Imported models are described
+ * by name and their world-space bounding box so the generator keeps proportions.
+ */
+export const describeObjectForPrompt = (object: StudioObject): string => {
+  if (object.type !== 'mesh' || !object.meshBounds) return object.name;
+
+  const [sx, sy, sz] = object.scale || [1, 1, 1];
+  const [w, h, d] = object.meshBounds;
+  const fmt = (n: number) => (Math.round(n * 100) / 100).toString();
+  return `${object.name} (3D product model, bounding box ${fmt(w * sx)} wide x ${fmt(h * sy)} tall x ${fmt(d * sz)} deep)`;
+};
@@ -0,0 +1,63 @@
+import { AspectRatioPreset, NamedStudioCamera, OutputFormat, StudioConfig } from '../types';
+
+/**
+ * Output Format Service - Aspect ratio and pixel size of generated images
+ *
+ * The project sets a default format and each camera can override it for its shot.
+ * The format frames the camera preview, sizes the snapshot sent to the generators
+ * and becomes their orientation and aspect ratio parameters.
+ */
+
+export const ASPECT_RATIO_PRESETS: Record<Exclude<AspectRatioPreset, 'custom'>, number> = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '3:4': 3 / 4,
+  '4:3': 4 / 3,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16
+};
+
+// Aspect ratios the FIBO providers accept; custom sizes are sent as the closest one
+const PROVIDER_ASPECT_RATIOS: Record<string, number> = {
+  '1:1': 1, '2:3': 2 / 3, '3:2': 3 / 2, '3:4': 3 / 4, '4:3': 4 / 3,
+  '4:5': 4 / 5, '5:4': 5 / 4, '9:16': 9 / 16, '16:9': 16 / 9
+};
+
+export const MIN_OUTPUT_SIZE = 256;
+export const MAX_OUTPUT_SIZE = 4096;
+const DEFAULT_LONG_EDGE = 1024;
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { aspect: '4:3', width: 1024, height: 768 };
+
+// Generators work in multiples of 8 pixels
+const roundSize = (size: number) =>
+  Math.min(MAX_OUTPUT_SIZE, Math.max(MIN_OUTPUT_SIZE, Math.round(size / 8) * 8));
+
+// A preset format with the given long edge
+export const createOutputFormat = (aspect: Exclude<AspectRatioPreset, 'custom'>, longEdge = DEFAULT_LONG_EDGE): OutputFormat => {
+  const ratio = ASPECT_RATIO_PRESETS[aspect];
+  return ratio >= 1
+    ? { aspect, width: roundSize(longEdge), height: roundSize(longEdge / ratio) }
+    : { aspect, width: roundSize(longEdge * ratio), height: roundSize(longEdge) };
+};
+
+export const createCustomOutputFormat = (width: number, height: number): OutputFormat =>
+  ({ aspect: 'custom', width: roundSize(width), height: roundSize(height) });
+
+// The shot's own format, else the project's
+export const getOutputFormat = (config: StudioConfig, camera?: NamedStudioCamera): OutputFormat =>
+  camera?.outputFormat || config.outputFormat || DEFAULT_OUTPUT_FORMAT;
+
+export const getOutputAspect = (format: OutputFormat) => format.width / format.height;
+
+export const getOutputOrientation = (format: OutputFormat): 'square' | 'landscape' | 'portrait' => {
+  const aspect = getOutputAspect(format);
+  return Math.abs(aspect - 1) < 0.02 ? 'square' : aspect > 1 ? 'landscape' : 'portrait';
+};
+
+export const getProviderAspectRatio = (format: OutputFormat): string => {
+  const aspect = getOutputAspect(format);
+  return Object.entries(PROVIDER_ASPECT_RATIOS).reduce((best, [name, ratio]) =>
+    Math.abs(Math.log(ratio / aspect)) < Math.abs(Math.log(PROVIDER_ASPECT_RATIOS[best] / aspect)) ? name : best
+  , '1:1');
+};
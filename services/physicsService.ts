@@ -0,0 +1,185 @@
+import * as CANNON from 'cannon-es';
+import * as THREE from 'three';
+import { StudioEnvironment, StudioObject } from '../types';
+import { getRootObjects, getTopLevelIds } from './sceneGraph';
+import { measureObject } from './layoutService';
+import { FLOOR_Y, getSetPieceSolids } from './setPieceService';
+
+/**
+ * Physics Service - Settle objects into natural resting poses
+ *
+ * Drops the selected objects under gravity onto the floor, the set pieces and the
+ * rest of the scene, and reports where they came to rest. Colliders are built from
+ * the rendered meshes: spheres and cylinders keep their shape, everything else
+ * (parts of compounds, imported model meshes) becomes a fitted box.
+ */
+
+type SettleUpdates = Record<string, Pick<StudioObject, 'position' | 'rotation'>>;
+
+const TIME_STEP = 1 / 60;
+const MAX_STEPS = 60 * 10;
+const EPSILON = 1e-3;
+
+const isUniform = (x: number, y: number, z: number) => Math.abs(x - y) < EPSILON && Math.abs(y - z) < EPSILON;
+
+// Visible meshes under a node, not descending into the nodes in `skip`
+const collectMeshes = (node: THREE.Object3D, skip: Set<THREE.Object3D>, meshes: THREE.Mesh[] = []): THREE.Mesh[] => {
+  if (!node.visible || skip.has(node)) return meshes;
+  const mesh = node as THREE.Mesh;
+  if (mesh.isMesh && mesh.geometry) meshes.push(mesh);
+  node.children.forEach(child => collectMeshes(child, skip, meshes));
+  return meshes;
+};
+
+// Collider for one mesh, with its offset from the body frame
+const createShape = (mesh: THREE.Mesh, frameInverse: THREE.Matrix4) => {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  frameInverse.clone().multiply(mesh.matrixWorld).decompose(position, quaternion, scale);
+
+  const geometry = mesh.geometry;
+  const params = (geometry as THREE.BufferGeometry & { parameters?: Record<string, number> }).parameters;
+  let shape: CANNON.Shape;
+
+  if (geometry.type === 'SphereGeometry' && params && isUniform(scale.x, scale.y, scale.z)) {
+    shape = new CANNON.Sphere(params.radius * scale.x);
+  } else if (geometry.type === 'CylinderGeometry' && params && Math.abs(scale.x - scale.z) < EPSILON) {
+    shape = new CANNON.Cylinder(params.radiusTop * scale.x, params.radiusBottom * scale.x, params.height * scale.y, 16);
+  } else {
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const size = box.getSize(new THREE.Vector3()).multiply(scale);
+    // Keep flat meshes (planes, decals) thick enough to collide
+    const halfExtents = new CANNON.Vec3(Math.max(size.x, EPSILON) / 2, Math.max(size.y, EPSILON) / 2, Math.max(size.z, EPSILON) / 2);
+    shape = new CANNON.Box(halfExtents);
+    position.add(box.getCenter(new THREE.Vector3()).multiply(scale).applyQuaternion(quaternion));
+  }
+
+  return {
+    shape,
+    offset: new CANNON.Vec3(position.x, position.y, position.z),
+    orientation: new CANNON.Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w)
+  };
+};
+
+// Rigid body for a set of meshes, framed at the node's world position and rotation
+const createBody = (node: THREE.Object3D, meshes: THREE.Mesh[], mass: number, material: CANNON.Material) => {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  node.matrixWorld.decompose(position, quaternion, new THREE.Vector3());
+  const frame = new THREE.Matrix4().compose(position, quaternion, new THREE.Vector3(1, 1, 1));
+  const frameInverse = frame.clone().invert();
+
+  const body = new CANNON.Body({
+    mass,
+    material,
+    position: new CANNON.Vec3(position.x, position.y, position.z),
+    quaternion: new CANNON.Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w),
+    linearDamping: 0.1,
+    angularDamping: 0.1,
+    sleepSpeedLimit: 0.05,
+    sleepTimeLimit: 0.5
+  });
+  meshes.forEach(mesh => {
+    const { shape, offset, orientation } = createShape(mesh, frameInverse);
+    body.addShape(shape, offset, orientation);
+  });
+  return { body, frameInverse };
+};
+
+const addStage = (world: CANNON.World, environment: StudioEnvironment, material: CANNON.Material) => {
+  const floor = new CANNON.Body({ mass: 0, material, shape: new CANNON.Plane() });
+  floor.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+  floor.position.set(0, FLOOR_Y, 0);
+  world.addBody(floor);
+
+  // The cove's floor is the floor; its back wall stops objects rolling away
+  const cyclorama = environment.cyclorama;
+  if (cyclorama?.enabled) {
+    const wall = new CANNON.Body({ mass: 0, material, shape: new CANNON.Box(new CANNON.Vec3(cyclorama.width / 2, cyclorama.height / 2, 0.05)) });
+    wall.position.set(0, FLOOR_Y + cyclorama.height / 2, -cyclorama.distance - 0.05);
+    world.addBody(wall);
+  }
+
+  (environment.setPieces ?? []).forEach(piece => {
+    const body = new CANNON.Body({ mass: 0, material });
+    body.position.set(...piece.position);
+    body.quaternion.setFromEuler(0, piece.rotation, 0);
+    getSetPieceSolids(piece).forEach(solid => {
+      const shape = solid.kind === 'box'
+        ? new CANNON.Box(new CANNON.Vec3(solid.size[0] / 2, solid.size[1] / 2, solid.size[2] / 2))
+        : new CANNON.Cylinder(solid.radiusTop, solid.radiusBottom, solid.height, 32);
+      body.addShape(shape, new CANNON.Vec3(...solid.position));
+    });
+    world.addBody(body);
+  });
+};
+
+/**
+ * Simulate the selected objects falling until they rest, and return their new
+ * positions and rotations in their parents' space. Everything else in the scene
+ * is a static obstacle. `nodes` are the rendered object nodes by id.
+ */
+export const settleObjects = (
+  objects: StudioObject[],
+  ids: string[],
+  nodes: Record<string, THREE.Object3D>,
+  environment: StudioEnvironment
+): SettleUpdates => {
+  const targets = getTopLevelIds(objects, ids).filter(id => nodes[id]);
+  if (targets.length === 0) return {};
+
+  const world = new CANNON.World({ gravity: new CANNON.Vec3(0, -9.82, 0), allowSleep: true });
+  const material = new CANNON.Material('studio');
+  world.addContactMaterial(new CANNON.ContactMaterial(material, material, { friction: 0.5, restitution: 0.1 }));
+  addStage(world, environment, material);
+
+  const dynamicNodes = new Set(targets.map(id => nodes[id]));
+  dynamicNodes.forEach(node => node.updateWorldMatrix(true, true));
+
+  // The rest of the scene stays put
+  getRootObjects(objects).forEach(root => {
+    const node = nodes[root.id];
+    if (!node || dynamicNodes.has(node)) return;
+    node.updateWorldMatrix(true, true);
+    const meshes = collectMeshes(node, dynamicNodes);
+    if (meshes.length > 0) world.addBody(createBody(node, meshes, 0, material).body);
+  });
+
+  const simulated = targets.flatMap(id => {
+    const node = nodes[id];
+    const meshes = collectMeshes(node, new Set());
+    if (meshes.length === 0) return [];
+    const size = measureObject(node).getSize(new THREE.Vector3());
+    const { body, frameInverse } = createBody(node, meshes, Math.max(size.x * size.y * size.z, 0.1), material);
+    world.addBody(body);
+    return [{ id, node, body, frameInverse }];
+  });
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    world.step(TIME_STEP);
+    if (simulated.every(({ body }) => body.sleepState === CANNON.Body.SLEEPING)) break;
+  }
+
+  const updates: SettleUpdates = {};
+  simulated.forEach(({ id, node, body, frameInverse }) => {
+    // Move the node by however far its body moved, then express that in the parent's space
+    const frame = new THREE.Matrix4().compose(
+      new THREE.Vector3(body.position.x, body.position.y, body.position.z),
+      new THREE.Quaternion(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w),
+      new THREE.Vector3(1, 1, 1)
+    );
+    const settled = frame.multiply(frameInverse).multiply(node.matrixWorld);
+    const parentInverse = node.parent ? node.parent.matrixWorld.clone().invert() : new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    parentInverse.multiply(settled).decompose(position, quaternion, new THREE.Vector3());
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+    updates[id] = {
+      position: [position.x, position.y, position.z],
+      rotation: [rotation.x, rotation.y, rotation.z]
+    };
+  });
+  return updates;
+};
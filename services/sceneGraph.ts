@@ -0,0 +1,206 @@
+import * as THREE from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { StudioObject } from '../types';
+
+/**
+ * Scene Graph - Parent/child relationships between studio objects
+ *
+ * Objects stay in a flat list (the shape stored in projects and history) and
+ * reference their parent through `parentId`. Transforms are always local to the
+ * parent. Objects whose parent no longer exists are treated as roots.
+ */
+
+type Transform = Pick<StudioObject, 'position' | 'rotation' | 'scale'>;
+
+export interface ObjectTreeEntry {
+  object: StudioObject;
+  depth: number;
+}
+
+const hasParent = (objects: StudioObject[], object: StudioObject): boolean =>
+  !!object.parentId && objects.some(o => o.id === object.parentId);
+
+export const getRootObjects = (objects: StudioObject[]): StudioObject[] =>
+  objects.filter(o => !hasParent(objects, o));
+
+export const getChildObjects = (objects: StudioObject[], parentId: string): StudioObject[] =>
+  objects.filter(o => o.parentId === parentId && o.id !== parentId);
+
+export const getDescendantIds = (objects: StudioObject[], id: string): Set<string> => {
+  const result = new Set<string>();
+  const visit = (parentId: string) => {
+    getChildObjects(objects, parentId).forEach(child => {
+      if (result.has(child.id)) return;
+      result.add(child.id);
+      visit(child.id);
+    });
+  };
+  visit(id);
+  return result;
+};
+
+// Depth-first list used by the Studio objects panel
+export const flattenObjectTree = (objects: StudioObject[]): ObjectTreeEntry[] => {
+  const entries: ObjectTreeEntry[] = [];
+  const visit = (object: StudioObject, depth: number) => {
+    entries.push({ object, depth });
+    getChildObjects(objects, object.id).forEach(child => visit(child, depth + 1));
+  };
+  getRootObjects(objects).forEach(root => visit(root, 0));
+  return entries;
+};
+
+// Drop ids whose ancestor is also listed; those objects move along with the ancestor
+export const getTopLevelIds = (objects: StudioObject[], ids: string[]): string[] =>
+  ids.filter(id =>
+    objects.some(o => o.id === id) &&
+    !ids.some(other => other !== id && getDescendantIds(objects, other).has(id))
+  );
+
+export const canReparent = (objects: StudioObject[], id: string, newParentId?: string): boolean => {
+  if (!newParentId) return true;
+  if (newParentId === id) return false;
+  return !getDescendantIds(objects, id).has(newParentId);
+};
+
+export const composeTransform = (transform: Transform): THREE.Matrix4 => {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(...(transform.position || [0, 0, 0])),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...(transform.rotation || [0, 0, 0]))),
+    new THREE.Vector3(...(transform.scale || [1, 1, 1]))
+  );
+};
+
+export const decomposeTransform = (matrix: THREE.Matrix4): Transform => {
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  matrix.decompose(position, quaternion, scale);
+  const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+  return {
+    position: [position.x, position.y, position.z],
+    rotation: [rotation.x, rotation.y, rotation.z],
+    scale: [scale.x, scale.y, scale.z]
+  };
+};
+
+// World matrix of an object, relative to the scene root
+export const getWorldMatrix = (objects: StudioObject[], id?: string): THREE.Matrix4 => {
+  const matrix = new THREE.Matrix4();
+  const visited = new Set<string>();
+  let current = objects.find(o => o.id === id);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    matrix.premultiply(composeTransform(current));
+    current = current.parentId ? objects.find(o => o.id === current!.parentId) : undefined;
+  }
+  return matrix;
+};
+
+/**
+ * Move an object under a new parent (or to the root) keeping its world transform
+ */
+export const reparentObject = (objects: StudioObject[], id: string, newParentId?: string): StudioObject[] => {
+  if (!canReparent(objects, id, newParentId)) return objects;
+
+  const world = getWorldMatrix(objects, id);
+  const parentInverse = getWorldMatrix(objects, newParentId).invert();
+  const local = decomposeTransform(parentInverse.multiply(world));
+
+  return objects.map(o => o.id === id ? { ...o, ...local, parentId: newParentId } : o);
+};
+
+/**
+ * Wrap objects in a new empty group placed at their average world position
+ */
+export const groupObjects = (
+  objects: StudioObject[],
+  ids: string[],
+  name = 'Group'
+): { objects: StudioObject[]; groupId: string } | null => {
+  // Only group the top-most selected objects; descendants move with them
+  const targets = getTopLevelIds(objects, ids);
+  if (targets.length === 0) return null;
+
+  const first = objects.find(o => o.id === targets[0])!;
+  const parentId = targets.every(id => objects.find(o => o.id === id)!.parentId === first.parentId)
+    ? first.parentId
+    : undefined;
+
+  const parentInverse = getWorldMatrix(objects, parentId).invert();
+  const center = new THREE.Vector3();
+  targets.forEach(id => center.add(new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(objects, id))));
+  center.divideScalar(targets.length).applyMatrix4(parentInverse);
+
+  const group: StudioObject = {
+    id: uuidv4(),
+    name,
+    type: 'group',
+    parentId,
+    color: '#ffffff',
+    position: [center.x, center.y, center.z],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1]
+  };
+
+  let next = [...objects, group];
+  targets.forEach(id => { next = reparentObject(next, id, group.id); });
+  return { objects: next, groupId: group.id };
+};
+
+/**
+ * Dissolve a group: its children move up to the group's parent and keep their world transform
+ */
+export const ungroupObject = (objects: StudioObject[], groupId: string): StudioObject[] => {
+  const group = objects.find(o => o.id === groupId);
+  if (!group) return objects;
+
+  const newParentId = hasParent(objects, group) ? group.parentId : undefined;
+  let next = objects;
+  getChildObjects(objects, groupId).forEach(child => {
+    next = reparentObject(next, child.id, newParentId);
+  });
+  return group.type === 'group' ? next.filter(o => o.id !== groupId) : next;
+};
+
+// Remove an object together with everything parented under it
+export const removeObjectTree = (objects: StudioObject[], id: string): StudioObject[] => {
+  const removed = getDescendantIds(objects, id);
+  removed.add(id);
+  return objects.filter(o => !removed.has(o.id));
+};
+
+/**
+ * Copy objects with everything parented under them, offset in their parent's space
+ */
+export const duplicateObjectTrees = (
+  objects: StudioObject[],
+  ids: string[],
+  offset: [number, number, number] = [0.5, 0, 0.5]
+): { objects: StudioObject[]; newIds: string[] } => {
+  const copies: StudioObject[] = [];
+  const newIds: string[] = [];
+
+  getTopLevelIds(objects, ids).forEach(rootId => {
+    const idMap = new Map<string, string>();
+    const treeIds = [rootId, ...getDescendantIds(objects, rootId)];
+    treeIds.forEach(id => idMap.set(id, uuidv4()));
+
+    treeIds.forEach(id => {
+      const source = objects.find(o => o.id === id)!;
+      const isRoot = id === rootId;
+      copies.push({
+        ...source,
+        id: idMap.get(id)!,
+        name: isRoot ? `${source.name} Copy` : source.name,
+        parentId: isRoot ? source.parentId : idMap.get(source.parentId!),
+        position: isRoot
+          ? [source.position[0] + offset[0], source.position[1] + offset[1], source.position[2] + offset[2]]
+          : source.position
+      });
+    });
+    newIds.push(idMap.get(rootId)!);
+  });
+
+  return { objects: [...objects, ...copies], newIds };
+};
@@ -0,0 +1,241 @@
+import * as THREE from 'three';
+import { v4 as uuidv4 } from 'uuid';
+import { PlatformType, SetPiece, SetPieceShape, SetPieceSurface, StudioConfig, StudioEnvironment, StudioObject } from '../types';
+import { getRootObjects } from './sceneGraph';
+
+/**
+ * Set Piece Service - Platforms, plinths and steps that products stand on
+ *
+ * Each set piece is described as a few solid blocks (boxes and cylinders) in its own
+ * space. The viewport renders those blocks, physics collides with them and layout
+ * tools read their top surfaces, so all three always agree on where the stage is.
+ */
+
+// Floor plane height in world space
+export const FLOOR_Y = -1.6;
+
+export const SET_PIECE_SHAPE_LABELS: Record<SetPieceShape, string> = {
+  cylinder: 'Podium',
+  box: 'Plinth',
+  round_table: 'Round Table',
+  steps: 'Steps'
+};
+
+export const SET_PIECE_SURFACES: SetPieceSurface[] = ['matte', 'glossy', 'wood', 'marble', 'metal'];
+
+// Building block of a set piece, relative to the center of the piece's underside
+export type SetPieceSolid =
+  | { kind: 'box'; position: [number, number, number]; size: [number, number, number] }
+  | { kind: 'cylinder'; position: [number, number, number]; radiusTop: number; radiusBottom: number; height: number };
+
+const SHAPE_DEFAULTS: Record<SetPieceShape, Pick<SetPiece, 'width' | 'depth' | 'height' | 'steps'>> = {
+  cylinder: { width: 2.4, depth: 2.4, height: 1.6 },
+  box: { width: 2, depth: 2, height: 1.6 },
+  round_table: { width: 3.6, depth: 3.6, height: 1.65 },
+  steps: { width: 2.4, depth: 1.8, height: 0.9, steps: 3 }
+};
+
+export const isRoundSetPiece = (shape: SetPieceShape) => shape === 'cylinder' || shape === 'round_table';
+
+export const createSetPiece = (shape: SetPieceShape, overrides: Partial<SetPiece> = {}): SetPiece => ({
+  id: uuidv4(),
+  name: SET_PIECE_SHAPE_LABELS[shape],
+  shape,
+  position: [0, FLOOR_Y, 0],
+  rotation: 0,
+  ...SHAPE_DEFAULTS[shape],
+  color: '#333333',
+  surface: 'matte',
+  ...overrides
+});
+
+// A smaller plinth standing on top of another piece
+export const stackSetPiece = (base: SetPiece): SetPiece => createSetPiece('box', {
+  name: `${base.name} Plinth`,
+  position: [base.position[0], getSetPieceTop(base), base.position[2]],
+  rotation: base.rotation,
+  width: Math.round(base.width * 0.6 * 100) / 100,
+  depth: Math.round(base.depth * 0.6 * 100) / 100,
+  height: 0.4,
+  color: base.color,
+  surface: base.surface
+});
+
+export const getSetPieceTop = (piece: SetPiece) => piece.position[1] + piece.height;
+
+export const getSetPieceSolids = (piece: SetPiece): SetPieceSolid[] => {
+  const { width, depth, height } = piece;
+  switch (piece.shape) {
+    case 'box':
+      return [{ kind: 'box', position: [0, height / 2, 0], size: [width, height, depth] }];
+    case 'round_table': {
+      const legHeight = Math.max(height - 0.2, 0.01);
+      return [
+        { kind: 'cylinder', position: [0, height - 0.05, 0], radiusTop: width / 2, radiusBottom: width / 2, height: 0.1 },
+        { kind: 'cylinder', position: [0, 0.1 + legHeight / 2, 0], radiusTop: width / 18, radiusBottom: width / 9, height: legHeight },
+        { kind: 'cylinder', position: [0, 0.05, 0], radiusTop: width * 0.22, radiusBottom: width * 0.22, height: 0.1 }
+      ];
+    }
+    case 'steps': {
+      // Treads get taller towards the back, each one a full-height block
+      const count = Math.max(1, Math.round(piece.steps ?? 3));
+      const treadDepth = depth / count;
+      return Array.from({ length: count }, (_, i) => {
+        const treadHeight = height * (i + 1) / count;
+        return {
+          kind: 'box' as const,
+          position: [0, treadHeight / 2, depth / 2 - (i + 0.5) * treadDepth] as [number, number, number],
+          size: [width, treadHeight, treadDepth] as [number, number, number]
+        };
+      });
+    }
+    case 'cylinder':
+    default:
+      return [{ kind: 'cylinder', position: [0, height / 2, 0], radiusTop: width / 2, radiusBottom: width / 2, height }];
+  }
+};
+
+const toPieceSpace = (piece: SetPiece, x: number, z: number): [number, number] => {
+  const dx = x - piece.position[0];
+  const dz = z - piece.position[2];
+  const cos = Math.cos(piece.rotation);
+  const sin = Math.sin(piece.rotation);
+  return [dx * cos - dz * sin, dx * sin + dz * cos];
+};
+
+const getSolidTopAt = (solid: SetPieceSolid, x: number, z: number): number | null => {
+  const [sx, sy, sz] = solid.position;
+  if (solid.kind === 'box') {
+    const [w, h, d] = solid.size;
+    return Math.abs(x - sx) <= w / 2 && Math.abs(z - sz) <= d / 2 ? sy + h / 2 : null;
+  }
+  return Math.hypot(x - sx, z - sz) <= solid.radiusTop ? sy + solid.height / 2 : null;
+};
+
+// The highest set piece surface at a point, or the floor
+export const getSupportAt = (setPieces: SetPiece[], x: number, z: number): { height: number; piece?: SetPiece } =>
+  setPieces.reduce<{ height: number; piece?: SetPiece }>((best, piece) => {
+    const [lx, lz] = toPieceSpace(piece, x, z);
+    getSetPieceSolids(piece).forEach(solid => {
+      const top = getSolidTopAt(solid, lx, lz);
+      if (top != null && piece.position[1] + top > best.height) best = { height: piece.position[1] + top, piece };
+    });
+    return best;
+  }, { height: FLOOR_Y });
+
+export const getSurfaceHeight = (environment: StudioEnvironment, x: number, z: number): number =>
+  getSupportAt(environment.setPieces ?? [], x, z).height;
+
+/**
+ * Keep objects standing on the stage when set pieces change: objects on a piece move
+ * and turn with it, and every resting object ends up on the new surface below it.
+ * `bounds` are world-space boxes of the root objects as rendered.
+ */
+export const followStageChange = (
+  objects: StudioObject[],
+  bounds: Record<string, THREE.Box3>,
+  before: SetPiece[],
+  after: SetPiece[]
+): Record<string, Pick<StudioObject, 'position' | 'rotation'>> => {
+  const updates: Record<string, Pick<StudioObject, 'position' | 'rotation'>> = {};
+  getRootObjects(objects).forEach(object => {
+    const box = bounds[object.id];
+    if (!box || box.isEmpty()) return;
+    const center = box.getCenter(new THREE.Vector3());
+    const support = getSupportAt(before, center.x, center.z);
+    if (Math.abs(box.min.y - support.height) > 0.05) return;
+
+    let [x, , z] = object.position;
+    let rotation = object.rotation;
+    const moved = support.piece && after.find(p => p.id === support.piece!.id);
+    if (support.piece && moved) {
+      // Carry the object's origin from the old piece frame into the new one
+      const turn = moved.rotation - support.piece.rotation;
+      const [lx, lz] = toPieceSpace(support.piece, x, z);
+      const cos = Math.cos(moved.rotation);
+      const sin = Math.sin(moved.rotation);
+      x = moved.position[0] + lx * cos + lz * sin;
+      z = moved.position[2] - lx * sin + lz * cos;
+      if (turn !== 0) {
+        const euler = new THREE.Euler().setFromQuaternion(
+          new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), turn)
+            .multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(...object.rotation)))
+        );
+        rotation = [euler.x, euler.y, euler.z];
+      }
+    }
+
+    const shift = new THREE.Vector3(x - object.position[0], 0, z - object.position[2]);
+    const height = getSupportAt(after, center.x + shift.x, center.z + shift.z).height;
+    const y = object.position[1] + height - support.height;
+    if (shift.lengthSq() > 0 || y !== object.position[1] || rotation !== object.rotation) {
+      updates[object.id] = { position: [x, y, z], rotation };
+    }
+  });
+  return updates;
+};
+
+// Older projects had one fixed platform and lifted root objects onto it when rendering
+const LEGACY_PLATFORMS: Record<Exclude<PlatformType, 'none'>, { shape: SetPieceShape; objectOffset: number }> = {
+  cylinder: { shape: 'cylinder', objectOffset: 0.5 },
+  cube: { shape: 'box', objectOffset: 0.5 },
+  round_table: { shape: 'round_table', objectOffset: 0.6 }
+};
+
+// The set piece matching one of the legacy platform types
+export const createPlatformSetPiece = (type: PlatformType, color?: string, surface?: SetPieceSurface): SetPiece | null => {
+  if (type === 'none' || !LEGACY_PLATFORMS[type]) return null;
+  return createSetPiece(LEGACY_PLATFORMS[type].shape, {
+    name: 'Platform',
+    ...(color ? { color } : {}),
+    ...(surface ? { surface } : {})
+  });
+};
+
+const PLATFORM_TYPE_OF: Partial<Record<SetPieceShape, PlatformType>> = {
+  cylinder: 'cylinder',
+  box: 'cube',
+  round_table: 'round_table'
+};
+
+/**
+ * Apply a single-platform change (as the prompt director describes it) to the set
+ * pieces: a different type replaces the first piece, color and surface restyle it
+ */
+export const applyPlatformUpdate = (
+  setPieces: SetPiece[],
+  update: { platformType?: PlatformType; platformColor?: string; platformMaterial?: SetPieceSurface }
+): SetPiece[] => {
+  const [hero, ...rest] = setPieces;
+  const { platformType, platformColor, platformMaterial } = update;
+  if (platformType === 'none') return rest;
+
+  if (platformType && (!hero || PLATFORM_TYPE_OF[hero.shape] !== platformType)) {
+    const platform = createPlatformSetPiece(platformType, platformColor ?? hero?.color, platformMaterial ?? hero?.surface);
+    if (!platform) return setPieces;
+    return [hero ? { ...platform, position: hero.position, rotation: hero.rotation } : platform, ...rest];
+  }
+
+  if (!hero) return setPieces;
+  return [{ ...hero, color: platformColor ?? hero.color, surface: platformMaterial ?? hero.surface }, ...rest];
+};
+
+/**
+ * Convert an older project's single platform into set pieces, moving root objects
+ * to where they used to be rendered
+ */
+export const migrateStage = (config: StudioConfig, objects: StudioObject[]): { config: StudioConfig; objects: StudioObject[] } => {
+  if (config.environment.setPieces) return { config, objects };
+
+  const { platformType = 'none', platformColor, platformMaterial, ...environment } = config.environment;
+  const platform = createPlatformSetPiece(platformType, platformColor, platformMaterial);
+  const offset = platformType !== 'none' ? LEGACY_PLATFORMS[platformType]?.objectOffset ?? 0 : 0;
+  const rootIds = new Set(getRootObjects(objects).map(o => o.id));
+
+  return {
+    config: { ...config, environment: { ...environment, setPieces: platform ? [platform] : [] } },
+    objects: offset === 0 ? objects : objects.map(o => rootIds.has(o.id)
+      ? { ...o, position: [o.position[0], o.position[1] + offset, o.position[2]] }
+      : o)
+  };
+};
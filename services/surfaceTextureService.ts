@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { SetPieceSurface } from '../types';
+
+/**
+ * Surface Texture Service - Procedural wood, marble and brushed metal
+ *
+ * Textures are painted once per surface and color into a canvas and cached, so set
+ * pieces get real grain and veining without shipping image assets.
+ */
+
+const TEXTURE_SIZE = 512;
+
+export interface SurfaceMaterialProps {
+  roughness: number;
+  metalness: number;
+  clearcoat: number;
+  map?: THREE.Texture;
+}
+
+// Deterministic value noise so a surface looks the same on every load
+const hash = (x: number, y: number) => {
+  const h = Math.sin(x * 127.1 + y * 311.7) * 43758.5453;
+  return h - Math.floor(h);
+};
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+const noise = (x: number, y: number) => {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const fx = smooth(x - ix);
+  const fy = smooth(y - iy);
+  const top = hash(ix, iy) + (hash(ix + 1, iy) - hash(ix, iy)) * fx;
+  const bottom = hash(ix, iy + 1) + (hash(ix + 1, iy + 1) - hash(ix, iy + 1)) * fx;
+  return top + (bottom - top) * fy;
+};
+
+const fbm = (x: number, y: number) => {
+  let value = 0;
+  let amplitude = 0.5;
+  for (let octave = 0; octave < 4; octave++) {
+    value += noise(x, y) * amplitude;
+    x *= 2;
+    y *= 2;
+    amplitude /= 2;
+  }
+  return value;
+};
+
+// Brightness multiplier for a pixel, u and v in 0-1
+const PATTERNS: Record<'wood' | 'marble' | 'metal', (u: number, v: number) => number> = {
+  wood: (u, v) => {
+    const rings = u * 14 + fbm(u * 3, v * 10) * 3;
+    const grain = rings - Math.floor(rings);
+    return 0.7 + 0.3 * smooth(Math.abs(grain * 2 - 1)) + (noise(u * 200, v * 8) - 0.5) * 0.08;
+  },
+  marble: (u, v) => {
+    const vein = Math.abs(Math.sin((u + v) * Math.PI * 3 + fbm(u * 4, v * 4) * 7));
+    return 1.05 - Math.pow(1 - vein, 12) * 0.55 - fbm(u * 8, v * 8) * 0.08;
+  },
+  metal: (u, v) => 0.82 + fbm(u * 2, v * 300) * 0.25
+};
+
+const cache = new Map<string, THREE.Texture>();
+
+const paintTexture = (surface: keyof typeof PATTERNS, color: string): THREE.Texture => {
+  const key = `${surface}:${color}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = TEXTURE_SIZE;
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(TEXTURE_SIZE, TEXTURE_SIZE);
+  const base = new THREE.Color(color);
+  const pattern = PATTERNS[surface];
+
+  for (let y = 0; y < TEXTURE_SIZE; y++) {
+    for (let x = 0; x < TEXTURE_SIZE; x++) {
+      const shade = pattern(x / TEXTURE_SIZE, y / TEXTURE_SIZE);
+      const i = (y * TEXTURE_SIZE + x) * 4;
+      image.data[i] = Math.min(255, base.r * shade * 255);
+      image.data[i + 1] = Math.min(255, base.g * shade * 255);
+      image.data[i + 2] = Math.min(255, base.b * shade * 255);
+      image.data[i + 3] = 255;
+    }
+  }
+  context.putImageData(image, 0, 0);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+  texture.anisotropy = 4;
+  cache.set(key, texture);
+  return texture;
+};
+
+/**
+ * Material settings for a set piece surface. Textured surfaces carry the color in
+ * their map, so the material color should stay white.
+ */
+export const getSurfaceMaterial = (surface: SetPieceSurface, color: string): SurfaceMaterialProps => {
+  switch (surface) {
+    case 'wood':
+      return { roughness: 0.6, metalness: 0, clearcoat: 0.1, map: paintTexture('wood', color) };
+    case 'marble':
+      return { roughness: 0.15, metalness: 0, clearcoat: 0.6, map: paintTexture('marble', color) };
+    case 'metal':
+      return { roughness: 0.3, metalness: 0.9, clearcoat: 0, map: paintTexture('metal', color) };
+    case 'glossy':
+      return { roughness: 0.1, metalness: 0.1, clearcoat: 0.8 };
+    case 'matte':
+    default:
+      return { roughness: 0.8, metalness: 0.1, clearcoat: 0 };
+  }
+};
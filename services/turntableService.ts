@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { StudioCamera, StudioObject, TurntableMode } from '../types';
+import { getRootObjects } from './sceneGraph';
+
+/**
+ * Turntable Service - 360° spin sets for e-commerce
+ *
+ * A spin set is N frames at equal steps around the product, either by orbiting the
+ * studio camera around its look-at point or by turning the product in front of a
+ * fixed camera (so the lighting stays put relative to the lens).
+ */
+
+export interface TurntableSettings {
+  frames: number;
+  elevation: number; // Degrees above the look-at point
+  mode: TurntableMode;
+}
+
+export const TURNTABLE_FRAME_PRESETS = [8, 12, 24, 36];
+
+// The product turns about the vertical axis through the camera's look-at point
+export interface ProductTurn {
+  angle: number; // Radians about +Y
+  pivot: [number, number, number];
+}
+
+export const getCameraElevation = ({ position, lookAt }: StudioCamera): number => {
+  const dy = position[1] - lookAt[1];
+  const horizontal = Math.hypot(position[0] - lookAt[0], position[2] - lookAt[2]);
+  return Math.round(Math.atan2(dy, horizontal) * 180 / Math.PI);
+};
+
+const getStepAngle = (frame: number, frames: number) => frame * Math.PI * 2 / frames;
+
+// Camera for one frame; the first frame keeps the camera's heading, at the spin set's elevation
+export const getTurntableCamera = <T extends StudioCamera>(camera: T, frame: number, settings: TurntableSettings): T => {
+  const [tx, ty, tz] = camera.lookAt;
+  const [px, , pz] = camera.position;
+  const distance = Math.hypot(camera.position[0] - tx, camera.position[1] - ty, camera.position[2] - tz);
+  const elevation = THREE.MathUtils.degToRad(settings.elevation);
+  const azimuth = Math.atan2(px - tx, pz - tz) + (settings.mode === 'orbit_camera' ? getStepAngle(frame, settings.frames) : 0);
+  const horizontal = distance * Math.cos(elevation);
+
+  return {
+    ...camera,
+    position: [
+      tx + horizontal * Math.sin(azimuth),
+      ty + distance * Math.sin(elevation),
+      tz + horizontal * Math.cos(azimuth)
+    ]
+  };
+};
+
+// How far the product is turned for one frame; turning it against the orbit direction gives the same order of views
+export const getProductTurn = (camera: StudioCamera, frame: number, settings: TurntableSettings): ProductTurn | undefined =>
+  settings.mode === 'rotate_product'
+    ? { angle: -getStepAngle(frame, settings.frames), pivot: camera.lookAt }
+    : undefined;
+
+// Root objects turned about the pivot, as the generators should describe them
+export const turnObjects = (objects: StudioObject[], turn: ProductTurn): StudioObject[] => {
+  const spin = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), turn.angle);
+  const pivot = new THREE.Vector3(...turn.pivot);
+  const rootIds = new Set(getRootObjects(objects).map(o => o.id));
+
+  return objects.map(object => {
+    if (!rootIds.has(object.id)) return object;
+    const position = new THREE.Vector3(...object.position).sub(pivot).applyQuaternion(spin).add(pivot);
+    const rotation = new THREE.Euler().setFromQuaternion(
+      spin.clone().multiply(new THREE.Quaternion().setFromEuler(new THREE.Euler(...object.rotation)))
+    );
+    return { ...object, position: position.toArray(), rotation: [rotation.x, rotation.y, rotation.z] };
+  });
+};
@@ -0,0 +1,86 @@
+/**
+ * Video Export Service - Record rendered frames from a canvas into a video clip
+ *
+ * Frames are pushed to a MediaRecorder one at a time, spaced in real time so the
+ * encoded timing matches the frame rate. A 5 second clip takes 5 seconds to record.
+ */
+
+export type VideoContainer = 'webm' | 'mp4';
+
+export interface VideoExportOptions {
+  container: VideoContainer;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+}
+
+export const VIDEO_FPS_OPTIONS = [24, 30, 60];
+export const VIDEO_HEIGHT_OPTIONS = [480, 720, 1080];
+
+const MIME_TYPES: Record<VideoContainer, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4']
+};
+
+const getMimeType = (container: VideoContainer): string | undefined =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : MIME_TYPES[container].find(type => MediaRecorder.isTypeSupported(type));
+
+// Containers this browser can record
+export const getSupportedVideoContainers = (): VideoContainer[] =>
+  (Object.keys(MIME_TYPES) as VideoContainer[]).filter(container => !!getMimeType(container));
+
+// Even pixel sizes, which video encoders require
+export const getVideoSize = (height: number, aspect: number) => ({
+  width: Math.round(height * aspect / 2) * 2,
+  height: Math.round(height / 2) * 2
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Record `renderFrame(time)` for every frame of the clip. The canvas must already
+ * be sized to the output resolution and only be drawn by `renderFrame` meanwhile.
+ */
+export const recordCanvas = async (
+  canvas: HTMLCanvasElement,
+  options: VideoExportOptions,
+  renderFrame: (time: number) => void,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const mimeType = getMimeType(options.container);
+  if (!mimeType) throw new Error(`Recording .${options.container} is not supported in this browser`);
+
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: options.width * options.height * options.fps * 0.15
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  const frameCount = Math.max(1, Math.round(options.duration * options.fps));
+  const frameMs = 1000 / options.fps;
+  const start = performance.now();
+  try {
+    for (let frame = 0; frame <= frameCount; frame++) {
+      renderFrame(Math.min(frame / options.fps, options.duration));
+      track.requestFrame();
+      onProgress?.(frame / frameCount);
+      await wait(Math.max(0, start + (frame + 1) * frameMs - performance.now()));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -1,25 +1,82 @@
+export type StudioLightType = 'directional' | 'point' | 'spot' | 'rect_area';
+
+// A single named light in the studio rig
+export interface StudioLight {
+  id: string;
+  name: string;
+  type: StudioLightType;
+  position: [number, number, number];
+  target: [number, number, number]; // Aim point for directional, spot and rect-area lights
+  color: string;
+  intensity: number;
+  angle?: number; // Spot cone angle in radians
+  castShadow?: boolean;
+  width?: number; // Rect-area panel size
+  height?: number;
+}
 
 export interface StudioLighting {
   ambientIntensity: number;
   ambientColor: string;
-  keyLightIntensity: number;
-  keyLightColor: string;
-  keyLightPosition: [number, number, number];
-  fillLightIntensity: number;
-  fillLightColor: string;
-  fillLightPosition: [number, number, number];
-  rimLightIntensity: number;
-  rimLightColor: string;
-  rimLightPosition: [number, number, number];
+  lights: StudioLight[];
+}
+
+export type HdriPreset = 'studio' | 'apartment' | 'city' | 'dawn' | 'forest' | 'lobby' | 'night' | 'park' | 'sunset' | 'warehouse';
+
+// Image-based lighting used for reflections and, optionally, the backdrop
+export interface StudioHdri {
+  preset: HdriPreset;
+  customUrl?: string; // Uploaded .hdr/.exr as a data URL, overrides the preset
+  customFileName?: string;
+  rotation: number; // Y rotation in radians
+  intensity: number;
+  blur: number; // Background blurriness, 0-1
+  showBackground: boolean;
+}
+
+export type PlatformType = 'none' | 'cylinder' | 'cube' | 'round_table';
+export type SetPieceShape = 'cylinder' | 'box' | 'round_table' | 'steps';
+export type SetPieceSurface = 'matte' | 'glossy' | 'wood' | 'marble' | 'metal';
+
+// A platform, plinth or riser the products stand on
+export interface SetPiece {
+  id: string;
+  name: string;
+  shape: SetPieceShape;
+  position: [number, number, number]; // Center of the footprint; y is the underside
+  rotation: number; // Around Y, in radians
+  width: number; // Diameter for round shapes
+  depth: number;
+  height: number;
+  steps?: number; // Number of treads for 'steps', rising towards -Z
+  color: string;
+  surface: SetPieceSurface;
+}
+
+// Seamless floor-to-wall sweep behind the set
+export interface StudioCyclorama {
+  enabled: boolean;
+  width: number;
+  height: number; // Wall height above the floor
+  depth: number; // Flat floor run in front of the curve
+  curveRadius: number;
+  distance: number; // How far behind the origin the wall stands
+  color: string;
+  gradient: boolean; // Fade from `color` at the curve to `gradientColor` at the top
+  gradientColor: string;
 }
 
 export interface StudioEnvironment {
   backgroundColor: string;
   floorRoughness: number;
   floorColor: string;
-  platformType: 'none' | 'cylinder' | 'cube' | 'round_table';
-  platformColor: string;
-  platformMaterial: 'matte' | 'glossy' | 'wood' | 'marble' | 'metal';
+  setPieces?: SetPiece[]; // Missing on older projects, see migrateStage
+  // Legacy single platform; older projects are migrated into setPieces
+  platformType?: PlatformType;
+  platformColor?: string;
+  platformMaterial?: SetPieceSurface;
+  hdri?: StudioHdri; // Missing on older projects, see DEFAULT_HDRI
+  cyclorama?: StudioCyclorama; // Missing on older projects, see DEFAULT_CYCLORAMA
 }
 
 export interface ConsistencySettings {
@@ -29,42 +86,143 @@ export interface ConsistencySettings {
   mode: 'strict_catalog' | 'creative_campaign';
 }
 
+export type SensorFormat = 'full_frame' | 'aps_c' | 'micro_four_thirds' | 'medium_format';
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
 export interface StudioCamera {
   position: [number, number, number];
   rotation: [number, number, number];
-  fov: number;
+  fov: number; // Vertical, derived from focalLength and sensor when those are set
   lookAt: [number, number, number];
+  // Physical lens
+  focalLength?: number; // mm
+  sensor?: SensorFormat;
+  aperture?: number; // f-number
+  focusDistance?: number; // Scene units from the lens, defaults to the look-at distance
+  depthOfField?: boolean; // Render lens blur in the preview
+  // Orthographic cameras have no perspective; zoom sets how much of the scene the frame shows
+  projection?: CameraProjection; // Defaults to perspective
+  zoom?: number;
+}
+
+export type KeyframeEasing = 'linear' | 'ease_in' | 'ease_out' | 'ease_in_out';
+
+// Pose of the studio camera and every object at one point of a reel
+export interface AnimationKeyframe {
+  id: string;
+  time: number; // Seconds from the start
+  easing: KeyframeEasing; // How the motion arrives at this keyframe from the previous one
+  camera: Pick<StudioCamera, 'position' | 'lookAt' | 'fov' | 'zoom'>;
+  objects: ({ id: string } & Pick<StudioObject, 'position' | 'rotation' | 'scale'>)[];
+}
+
+export interface StudioAnimation {
+  duration: number; // Seconds
+  keyframes: AnimationKeyframe[]; // Sorted by time
+}
+
+export type AspectRatioPreset = '1:1' | '4:5' | '3:4' | '4:3' | '16:9' | '9:16' | 'custom';
+
+// Size of the generated image, which is also the studio camera's frame
+export interface OutputFormat {
+  aspect: AspectRatioPreset;
+  width: number; // px
+  height: number; // px
+}
+
+// A saved production camera, e.g. "Front hero" or "Top flat lay"
+export interface NamedStudioCamera extends StudioCamera {
+  id: string;
+  name: string;
+  outputFormat?: OutputFormat; // Overrides the project's output format for this shot
 }
 
 export interface StudioConfig {
   lighting: StudioLighting;
   environment: StudioEnvironment;
   moodDescription: string; // Used for AI generation context
-  studioCamera?: StudioCamera; // Production camera for image generation
+  cameras?: NamedStudioCamera[]; // Production cameras for image generation
+  outputFormat?: OutputFormat; // Default size of generated images
+  animation?: StudioAnimation; // Keyframed camera and object motion for reels
+  studioCamera?: StudioCamera; // Legacy single camera, see migrateCameras
+}
+
+// Texture maps for PBR materials. Images are stored as data URLs with the project.
+export interface MaterialMaps {
+  albedoMap?: string;
+  normalMap?: string;
+  roughnessMap?: string;
+  metalnessMap?: string;
+  alphaMap?: string;
+  repeat?: [number, number]; // UV tiling
+  offset?: [number, number]; // UV offset
+}
+
+// Advanced physical material settings, rendered with MeshPhysicalMaterial
+export interface PhysicalMaterialProps {
+  transmission?: number; // 0-1, glass and clear plastics
+  ior?: number; // Index of refraction (1.0-2.333)
+  thickness?: number; // Volume thickness for refraction
+  clearcoat?: number; // 0-1, car paint and lacquer
+  clearcoatRoughness?: number;
+  sheen?: number; // 0-1, fabric and velvet
+  sheenColor?: string;
+  emissive?: string; // Glow color for LEDs and screens
+  emissiveIntensity?: number;
 }
 
-export interface ObjectPart {
-  shape: 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus';
+export type PartShape =
+  | 'cube' | 'sphere' | 'cylinder' | 'cone' | 'torus'
+  | 'capsule' | 'rounded_box' | 'tapered_cylinder' | 'lathe' | 'arc';
+
+export interface ObjectPart extends PhysicalMaterialProps {
+  shape: PartShape;
   position: [number, number, number];
   rotation: [number, number, number];
   scale: [number, number, number];
   color: string;
   roughness: number;
   metalness: number;
+  maps?: MaterialMaps;
+  // Parametric shape settings (unit-sized before scale, see PartGeometry)
+  radius?: number; // capsule: end cap radius
+  length?: number; // capsule: straight section length
+  cornerRadius?: number; // rounded_box: edge radius
+  radiusTop?: number; // tapered_cylinder
+  radiusBottom?: number; // tapered_cylinder
+  profile?: [number, number][]; // lathe: [radius, height] points revolved around Y
+  arc?: number; // arc: sweep angle in radians
+  tube?: number; // arc: tube radius
 }
 
-export interface StudioObject {
+export interface StudioObject extends PhysicalMaterialProps {
   id: string;
   name: string;
-  type: 'primitive' | 'compound'; // Changed 'custom' to 'compound' for multi-part objects
+  type: 'primitive' | 'compound' | 'mesh' | 'group'; // Changed 'custom' to 'compound' for multi-part objects
+  parentId?: string; // Parent object id; transforms are local to the parent
   shape?: 'cube' | 'sphere' | 'torus' | 'cylinder'; // Legacy simple shape
   parts?: ObjectPart[]; // New: List of primitives that make up the object
+  meshUrl?: string; // Imported glTF/GLB asset (data URL) for 'mesh' objects
+  meshFileName?: string; // Original file name of the imported asset
+  meshBounds?: [number, number, number]; // Normalized bounding box size [w, h, d] before object scale
   color: string;
   position: [number, number, number];
   rotation: [number, number, number];
   scale: [number, number, number];
   roughness?: number;
   metalness?: number;
+  maps?: MaterialMaps;
+}
+
+export type TurntableMode = 'orbit_camera' | 'rotate_product';
+
+// Position of an image within a 360° spin set
+export interface SpinSetFrame {
+  id: string; // Shared by every frame of the set
+  index: number;
+  count: number;
+  mode: TurntableMode;
 }
 
 export interface GeneratedImage {
@@ -73,6 +231,8 @@ export interface GeneratedImage {
   promptUsed: string;
   timestamp: number;
   objectName: string;
+  cameraName?: string; // Which studio camera the image was generated from
+  spinSet?: SpinSetFrame;
 }
 
 export interface Project {